@@ -0,0 +1,72 @@
+import React from 'react';
+import {StyleProp, Text, TouchableOpacity, View, ViewStyle} from 'react-native';
+import {useVideoPlayerContext, VideoPlayerState} from './useVideoPlayer';
+import {getTextStyle, useVideoPlayerTheme} from './theme';
+import PlayPauseButton from './PlayPauseButton';
+import styles from './styles';
+
+/**
+ * @description shown in place of the controls while an ad plays, the ad label with the remaining time,
+ * a play pause button and the skip button of skippable ads
+ * @param {VideoPlayerState} player - player playing the ad, defaults to the one of the surrounding VideoPlayer
+ */
+
+type Props = {
+  player?: VideoPlayerState;
+  style?: StyleProp<ViewStyle>;
+};
+
+export default function AdOverlay(props: Props) {
+  const player = useVideoPlayerContext(props.player);
+  const theme = useVideoPlayerTheme();
+  const {ad, labels} = player;
+
+  if (!ad) {
+    return null;
+  }
+
+  const textStyle = [
+    styles.adText,
+    getTextStyle(theme),
+    {fontSize: theme.fonts.smallSize},
+  ];
+
+  return (
+    <View
+      style={[styles.absolute, {zIndex: 4, elevation: 7}, props.style]}
+      pointerEvents="box-none">
+      <View style={[styles.adLabel, {backgroundColor: theme.colors.overlay}]}>
+        <Text style={textStyle}>
+          {labels.ad(
+            player.formatTime(Math.max(ad.duration - ad.currentTime, 0)),
+            ad.position,
+            ad.count,
+          )}
+        </Text>
+      </View>
+      <PlayPauseButton
+        player={player}
+        size="controlBar"
+        style={{position: 'absolute', left: 12, bottom: 12}}
+      />
+      {ad.skipIn !== null && (
+        <TouchableOpacity
+          onPress={player.skipAd}
+          disabled={ad.skipIn > 0}
+          accessibilityRole="button"
+          accessibilityLabel={
+            ad.skipIn > 0 ? labels.skipAdIn(ad.skipIn) : labels.skipAd
+          }
+          accessibilityState={{disabled: ad.skipIn > 0}}
+          style={[
+            styles.skipAdButton,
+            {bottom: 24, backgroundColor: theme.colors.menuBackground},
+          ]}>
+          <Text style={[getTextStyle(theme), {fontSize: theme.fonts.size}]}>
+            {ad.skipIn > 0 ? labels.skipAdIn(ad.skipIn) : labels.skipAd}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,105 @@
+import React from 'react';
+import {StyleProp, Text, TextStyle, View, ViewStyle} from 'react-native';
+import {Cue, CuePosition} from './captions';
+import styles from './styles';
+import {useVideoPlayerTheme} from './theme';
+
+const LINE_HEIGHT = 22;
+
+/**
+ * @description draws the active caption cues on top of the video
+ * @param {Cue[]} cues - the cues to show
+ * @param {number} height - height of the video, used for the line position of the cues
+ * @param {number} bottomOffset - space to keep free at the bottom, e.g. for the media controls
+ * @param {styles} captionStyle - text style of the captions
+ * @param {styles} captionContainerStyle - style of the background box of every cue
+ */
+
+type Props = {
+  cues: Cue[];
+  height: number;
+  bottomOffset: number;
+  captionStyle?: StyleProp<TextStyle>;
+  captionContainerStyle?: StyleProp<ViewStyle>;
+};
+
+const getAlignItems = (align: CuePosition['align']) => {
+  switch (align) {
+    case 'start':
+    case 'left':
+      return 'flex-start';
+    case 'end':
+    case 'right':
+      return 'flex-end';
+    default:
+      return 'center';
+  }
+};
+
+const getPlacement = (
+  position: CuePosition,
+  height: number,
+  bottomOffset: number,
+): ViewStyle => {
+  const {line, lineIsPercentage} = position;
+  if (line === null) {
+    return {bottom: bottomOffset};
+  }
+  if (lineIsPercentage) {
+    return line < 50
+      ? {top: (height * line) / 100}
+      : {bottom: Math.max((height * (100 - line)) / 100, bottomOffset)};
+  }
+  //negative line numbers count from the bottom of the video, -1 being the last line
+  return line >= 0
+    ? {top: line * LINE_HEIGHT}
+    : {bottom: Math.max((-line - 1) * LINE_HEIGHT, bottomOffset)};
+};
+
+export default function CaptionOverlay(props: Props) {
+  const {cues, height, bottomOffset, captionStyle, captionContainerStyle} =
+    props;
+  const {colors, fonts} = useVideoPlayerTheme();
+
+  return (
+    <View pointerEvents="none" style={styles.absolute}>
+      {cues.map((cue, index) => (
+        <View
+          key={`${cue.start}-${cue.end}-${index}`}
+          style={[
+            styles.captionCueView,
+            {alignItems: getAlignItems(cue.position.align)},
+            getPlacement(cue.position, height, bottomOffset),
+          ]}>
+          <View
+            style={[
+              styles.captionTextContainer,
+              {backgroundColor: colors.captionBackground},
+              captionContainerStyle,
+            ]}>
+            {cue.lines.map((line, lineIndex) => (
+              <Text
+                key={lineIndex}
+                style={[
+                  styles.captionText,
+                  {color: colors.captionText, fontFamily: fonts.family},
+                  captionStyle,
+                ]}>
+                {line.map((span, spanIndex) => (
+                  <Text
+                    key={spanIndex}
+                    style={[
+                      span.bold && {fontWeight: 'bold'},
+                      span.italic && {fontStyle: 'italic'},
+                    ]}>
+                    {span.text}
+                  </Text>
+                ))}
+              </Text>
+            ))}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
@@ -0,0 +1,383 @@
+import React, {useState} from 'react';
+import {Image, Platform, Text, TouchableOpacity, View} from 'react-native';
+import {useVideoPlayerContext, VideoPlayerState} from './useVideoPlayer';
+import {
+  getControlBarHeight,
+  getIconStyle,
+  getTextStyle,
+  useVideoPlayerTheme,
+} from './theme';
+import {getThumbnailAt} from './thumbnails';
+import {
+  DEFAULT_PLAYBACK_RATES,
+  getAudioOptions,
+  getQualityOptions,
+  getRateOptions,
+} from './settings';
+import PlayPauseButton from './PlayPauseButton';
+import SeekBar from './SeekBar';
+import TimeLabel from './TimeLabel';
+import MuteButton from './MuteButton';
+import VolumeSlider from './VolumeSlider';
+import FullScreenButton from './FullScreenButton';
+import LiveBadge from './LiveBadge';
+import SettingsMenu from './SettingsMenu';
+import styles from './styles';
+
+/**
+ * @description the default controls of the VideoPlayer, the playback buttons in the middle of the video
+ * and the control bar at the bottom, shown while the controls of the player are visible. Live streams without
+ * dvr get no seeking controls
+ * @param {VideoPlayerState} player - player to control, defaults to the one of the surrounding VideoPlayer
+ * @param {boolean} forwardBackwardButtons - default is true, pass false to hide the seek 10 seconds buttons
+ * @param {boolean} settingsButton - default is true, pass false to hide the settings button
+ * @param {boolean} fullScreenButton - default is true, pass false to hide the full screen button
+ * @param {number[]} playbackRates - rates offered in the settings menu, default is 0.5x to 2x
+ * @param {number} previewThumbnailWidth - width of the frame preview above the seekbar, default is 160
+ * @param {boolean} abRepeatButton - default is false, pass true to show the A–B repeat button
+ * @param {boolean} volumeSlider - default is true, pass false to not open the volume slider with a long press on the mute button
+ */
+
+type Props = {
+  player?: VideoPlayerState;
+  forwardBackwardButtons?: boolean;
+  settingsButton?: boolean;
+  fullScreenButton?: boolean;
+  playbackRates?: number[];
+  previewThumbnailWidth?: number;
+  abRepeatButton?: boolean;
+  volumeSlider?: boolean;
+};
+
+export default function ControlsOverlay(props: Props) {
+  const player = useVideoPlayerContext(props.player);
+  const theme = useVideoPlayerTheme();
+  //the volume slider opens above the mute button
+  const [muteButtonX, setMuteButtonX] = useState(0);
+  const {
+    showControls,
+    screenHeight,
+    isFullScreen,
+    playlist,
+    nextIndex,
+    chapters,
+    currentChapterIndex,
+    textTracks,
+    selectedTextTrack,
+    openMenu,
+    controlsTouchHandlers,
+    controlsFocusHandlers,
+    labels,
+    isLive,
+    isDvr,
+    abRepeat,
+  } = player;
+
+  if (!showControls) {
+    return null;
+  }
+
+  const canSeek = !isLive || isDvr;
+  const isABRepeatSet = !!abRepeat && abRepeat.b !== null;
+  const forwardBackwardButtons =
+    (props.forwardBackwardButtons ?? true) && canSeek;
+  const settingsButton = props.settingsButton ?? true;
+  const volumeSlider = props.volumeSlider ?? true;
+  const fullScreenButton = props.fullScreenButton ?? true;
+  const playlistLength = playlist?.length ?? 0;
+  const centerIconStyle = getIconStyle(theme, 'center');
+  const controlBarIconStyle = getIconStyle(theme, 'controlBar');
+  const textStyle = getTextStyle(theme);
+  const controlBarHeight = getControlBarHeight(theme, isFullScreen);
+  const isLegacyFullScreen = isFullScreen && player.fullScreenMode === 'legacy';
+  const isPreviewShown =
+    player.isSeeking &&
+    getThumbnailAt(player.thumbnails, player.currentTime) !== null;
+
+  return (
+    <>
+      <View
+        style={{
+          position: 'absolute',
+          alignSelf: 'center',
+          top: screenHeight / 2.2,
+        }}>
+        <View style={{flexDirection: 'row'}}>
+          {playlistLength > 1 && (
+            <TouchableOpacity
+              onPress={player.previous}
+              accessibilityRole="button"
+              accessibilityLabel={labels.previous}
+              style={{marginRight: 24}}
+              {...controlsFocusHandlers}>
+              <Image
+                source={theme.icons.previous}
+                style={centerIconStyle}
+                resizeMode="cover"
+              />
+            </TouchableOpacity>
+          )}
+          {forwardBackwardButtons && (
+            <TouchableOpacity
+              onPress={() => player.seekBy(-10)}
+              accessibilityRole="button"
+              accessibilityLabel={labels.rewind}
+              {...controlsFocusHandlers}>
+              <Image
+                source={theme.icons.rewind}
+                style={centerIconStyle}
+                resizeMode="cover"
+              />
+            </TouchableOpacity>
+          )}
+          <PlayPauseButton
+            player={player}
+            style={{marginHorizontal: 32, elevation: 6, zIndex: 3}}
+          />
+          {forwardBackwardButtons && (
+            <TouchableOpacity
+              onPress={() => player.seekBy(10)}
+              accessibilityRole="button"
+              accessibilityLabel={labels.forward}
+              {...controlsFocusHandlers}>
+              <Image
+                source={theme.icons.forward}
+                style={centerIconStyle}
+                resizeMode="cover"
+              />
+            </TouchableOpacity>
+          )}
+          {playlistLength > 1 && (
+            <TouchableOpacity
+              onPress={player.next}
+              disabled={nextIndex === null}
+              accessibilityRole="button"
+              accessibilityLabel={labels.next}
+              accessibilityState={{disabled: nextIndex === null}}
+              style={[
+                {marginLeft: 24},
+                nextIndex === null && styles.disabledControl,
+              ]}
+              {...controlsFocusHandlers}>
+              <Image
+                source={theme.icons.next}
+                style={centerIconStyle}
+                resizeMode="cover"
+              />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+      <View
+        style={[
+          styles.mediaControlsView,
+          {
+            height: controlBarHeight,
+            backgroundColor: theme.controlBar.backgroundColor,
+          },
+          //the legacy full screen does not know the safe area, it keeps clear of the notch and the nav buttons
+          Platform.OS === 'ios' && isLegacyFullScreen && {marginRight: 16},
+          Platform.OS === 'android' && isLegacyFullScreen && {right: 104},
+        ]}
+        {...controlsTouchHandlers}>
+        <View style={styles.rowWithAlignCenter}>
+          <TimeLabel player={player} />
+          {canSeek ? (
+            <SeekBar
+              player={player}
+              previewThumbnailWidth={props.previewThumbnailWidth}
+            />
+          ) : (
+            <View style={{flex: 1}} />
+          )}
+          {chapters.length > 1 && (
+            <>
+              <TouchableOpacity
+                onPress={player.previousChapter}
+                accessibilityRole="button"
+                accessibilityLabel={labels.previousChapter}
+                style={{marginRight: 8}}
+                {...controlsFocusHandlers}>
+                <Image
+                  source={theme.icons.previous}
+                  style={controlBarIconStyle}
+                  resizeMode="cover"
+                />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={player.nextChapter}
+                accessibilityRole="button"
+                accessibilityLabel={labels.nextChapter}
+                style={{marginRight: 8}}
+                {...controlsFocusHandlers}>
+                <Image
+                  source={theme.icons.next}
+                  style={controlBarIconStyle}
+                  resizeMode="cover"
+                />
+              </TouchableOpacity>
+            </>
+          )}
+          {textTracks.length > 0 && (
+            <TouchableOpacity
+              onPress={() => player.toggleMenu('captions')}
+              accessibilityRole="button"
+              accessibilityLabel={labels.captions}
+              accessibilityState={{
+                checked: selectedTextTrack !== null,
+                expanded: openMenu === 'captions',
+              }}
+              style={[
+                {marginRight: 8},
+                selectedTextTrack === null && styles.disabledControl,
+              ]}
+              {...controlsFocusHandlers}>
+              <Image
+                source={theme.icons.closedCaptions}
+                style={controlBarIconStyle}
+                resizeMode="cover"
+              />
+            </TouchableOpacity>
+          )}
+          {props.abRepeatButton && canSeek && (
+            <TouchableOpacity
+              onPress={player.toggleABRepeat}
+              accessibilityRole="button"
+              accessibilityLabel={labels.abRepeat}
+              accessibilityState={{checked: isABRepeatSet}}
+              style={[{marginRight: 8}, !abRepeat && styles.disabledControl]}
+              {...controlsFocusHandlers}>
+              <Text
+                style={[
+                  styles.menuText,
+                  textStyle,
+                  isABRepeatSet && {color: theme.colors.marker},
+                ]}>
+                {abRepeat && !isABRepeatSet
+                  ? labels.abRepeatStartText
+                  : labels.abRepeatText}
+              </Text>
+            </TouchableOpacity>
+          )}
+          {settingsButton && (
+            <TouchableOpacity
+              onPress={() => player.toggleMenu('settings')}
+              accessibilityRole="button"
+              accessibilityLabel={labels.settings}
+              accessibilityState={{expanded: openMenu === 'settings'}}
+              style={{marginRight: 8}}
+              {...controlsFocusHandlers}>
+              <Image
+                source={theme.icons.settings}
+                style={controlBarIconStyle}
+                resizeMode="cover"
+              />
+            </TouchableOpacity>
+          )}
+          <MuteButton
+            player={player}
+            volumeSlider={volumeSlider}
+            style={{marginRight: 8}}
+            onLayout={e => setMuteButtonX(e.nativeEvent.layout.x)}
+          />
+          {isLive ? (
+            <LiveBadge player={player} style={{marginRight: 12}} />
+          ) : (
+            <TimeLabel
+              player={player}
+              value="duration"
+              style={{marginRight: 12}}
+            />
+          )}
+          {fullScreenButton && <FullScreenButton player={player} />}
+        </View>
+      </View>
+      {currentChapterIndex >= 0 && !isPreviewShown && (
+        <Text
+          numberOfLines={1}
+          style={[
+            styles.chapterTitle,
+            textStyle,
+            {bottom: controlBarHeight + 4},
+          ]}>
+          {chapters[currentChapterIndex].title}
+        </Text>
+      )}
+      {openMenu === 'settings' && (
+        <SettingsMenu
+          rateOptions={getRateOptions(
+            props.playbackRates ?? DEFAULT_PLAYBACK_RATES,
+            labels.normalSpeed,
+          )}
+          rate={player.rate}
+          onRateSelect={value => {
+            player.setRate(value);
+            player.closeMenu();
+          }}
+          qualityOptions={getQualityOptions(
+            player.videoTracks,
+            labels.autoQuality,
+          )}
+          selectedVideoTrack={player.selectedVideoTrack}
+          onVideoTrackSelect={value => {
+            player.setSelectedVideoTrack(value);
+            player.closeMenu();
+          }}
+          audioOptions={getAudioOptions(player.audioTracks, labels.audioTrack)}
+          selectedAudioTrack={player.selectedAudioTrack}
+          onAudioTrackSelect={value => {
+            player.setSelectedAudioTrack(value);
+            player.closeMenu();
+          }}
+          style={{bottom: controlBarHeight}}
+          labels={labels}
+          {...controlsTouchHandlers}
+          {...controlsFocusHandlers}
+        />
+      )}
+      {openMenu === 'volume' && volumeSlider && (
+        <VolumeSlider
+          player={player}
+          style={{
+            bottom: controlBarHeight,
+            //centered above the mute button, whose row starts after the padding of the control bar
+            left: 8 + muteButtonX + theme.iconSizes.controlBar / 2 - 20,
+          }}
+        />
+      )}
+      {openMenu === 'captions' && (
+        <View
+          style={[
+            styles.menu,
+            {
+              bottom: controlBarHeight,
+              backgroundColor: theme.colors.menuBackground,
+            },
+          ]}
+          {...controlsTouchHandlers}>
+          {[null, ...textTracks.map((_, index) => index)].map(index => (
+            <TouchableOpacity
+              key={index ?? 'off'}
+              onPress={() => player.selectTextTrack(index)}
+              accessibilityRole="menuitem"
+              accessibilityState={{selected: index === selectedTextTrack}}
+              style={styles.menuItem}
+              {...controlsFocusHandlers}>
+              <Text
+                style={[
+                  styles.menuText,
+                  textStyle,
+                  index === selectedTextTrack && {
+                    fontWeight: 'bold',
+                    fontFamily: theme.fonts.boldFamily ?? theme.fonts.family,
+                  },
+                ]}>
+                {index === null ? labels.captionsOff : textTracks[index].title}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,108 @@
+import React from 'react';
+import {Image, Text, TouchableOpacity, View} from 'react-native';
+import {useVideoPlayerContext, VideoPlayerState} from './useVideoPlayer';
+import {getTextStyle, useVideoPlayerTheme} from './theme';
+import {PlayerError} from './errors';
+import styles from './styles';
+
+/**
+ * @description params of the renderError prop, retry restarts the playback at the last known position right away,
+ * isAutoRetrying tells whether an automatic retry is already scheduled
+ */
+export type ErrorViewParams = {
+  error: PlayerError;
+  retry: () => void;
+  isAutoRetrying: boolean;
+  attempt: number;
+  maxAttempts: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * @description shown in place of the video once the player fails, a retry button with the message of the error
+ * and the progress of the automatic retries
+ * @param {VideoPlayerState} player - player that failed, defaults to the one of the surrounding VideoPlayer
+ * @param {function} renderError - renders a custom view instead of the default one
+ */
+
+type Props = {
+  player?: VideoPlayerState;
+  renderError?: (params: ErrorViewParams) => React.ReactNode;
+};
+
+export default function ErrorView(props: Props) {
+  const player = useVideoPlayerContext(props.player);
+  const theme = useVideoPlayerTheme();
+  const {error, labels, screenWidth, screenHeight} = player;
+  const textStyle = getTextStyle(theme);
+
+  if (props.renderError && error) {
+    return (
+      <>
+        {props.renderError({
+          error,
+          retry: player.retry,
+          isAutoRetrying: player.isAutoRetrying,
+          attempt: player.retryAttempt,
+          maxAttempts: player.maxRetryAttempts,
+          width: screenWidth,
+          height: screenHeight,
+        })}
+      </>
+    );
+  }
+
+  return (
+    <View
+      style={[
+        styles.errorView,
+        {
+          height: screenHeight,
+          width: screenWidth,
+          backgroundColor: theme.errorScreen.backgroundColor,
+        },
+      ]}>
+      <TouchableOpacity
+        onPress={player.retry}
+        accessibilityRole="button"
+        accessibilityLabel={labels.retry}>
+        <Image
+          source={theme.icons.retry}
+          style={{
+            height: theme.iconSizes.retry,
+            width: theme.iconSizes.retry,
+            tintColor: theme.errorScreen.iconColor,
+          }}
+          resizeMode="contain"
+        />
+      </TouchableOpacity>
+      {error && (
+        <Text
+          style={[
+            styles.errorText,
+            textStyle,
+            {
+              color: theme.errorScreen.textColor,
+              fontSize: theme.fonts.size,
+            },
+          ]}>
+          {error.message}
+        </Text>
+      )}
+      {player.isAutoRetrying && (
+        <Text
+          style={[
+            styles.errorSubText,
+            textStyle,
+            {
+              color: theme.errorScreen.secondaryTextColor,
+              fontSize: theme.fonts.smallSize,
+            },
+          ]}>
+          {labels.retrying(player.retryAttempt, player.maxRetryAttempts)}
+        </Text>
+      )}
+    </View>
+  );
+}
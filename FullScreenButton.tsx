@@ -0,0 +1,43 @@
+import React from 'react';
+import {Image, StyleProp, TouchableOpacity, ViewStyle} from 'react-native';
+import {useVideoPlayerContext, VideoPlayerState} from './useVideoPlayer';
+import {getIconStyle, useVideoPlayerTheme, VideoPlayerTheme} from './theme';
+
+/**
+ * @description enters and exits full screen
+ * @param {VideoPlayerState} player - player to control, defaults to the one of the surrounding VideoPlayer
+ * @param {string} size - center or controlBar, icon size from the theme, default is controlBar
+ */
+
+type Props = {
+  player?: VideoPlayerState;
+  size?: keyof VideoPlayerTheme['iconSizes'];
+  style?: StyleProp<ViewStyle>;
+};
+
+export default function FullScreenButton(props: Props) {
+  const player = useVideoPlayerContext(props.player);
+  const theme = useVideoPlayerTheme();
+
+  return (
+    <TouchableOpacity
+      onPress={player.toggleFullScreen}
+      accessibilityRole="button"
+      accessibilityLabel={
+        player.isFullScreen
+          ? player.labels.exitFullScreen
+          : player.labels.enterFullScreen
+      }
+      style={props.style}
+      {...player.controlsFocusHandlers}>
+      <Image
+        source={
+          player.isFullScreen
+            ? theme.icons.exitFullscreen
+            : theme.icons.fullScreen
+        }
+        style={getIconStyle(theme, props.size ?? 'controlBar')}
+      />
+    </TouchableOpacity>
+  );
+}
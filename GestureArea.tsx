@@ -0,0 +1,247 @@
+import React, {useRef, useState} from 'react';
+import {Animated, PanResponder, Text, View} from 'react-native';
+import {useVideoPlayerContext, VideoPlayerState} from './useVideoPlayer';
+import {getTextStyle, useVideoPlayerTheme} from './theme';
+import {
+  getPanIntent,
+  getScrubTime,
+  getSwipeVolume,
+  getTapZone,
+  isDoubleTap,
+  isPan,
+  PanIntent,
+  Tap,
+} from './gestures';
+import {getThumbnailAt} from './thumbnails';
+import ThumbnailPreview from './ThumbnailPreview';
+import styles from './styles';
+
+/**
+ * @description touch area over the video, a tap toggles the controls, a double tap on the sides seeks, a horizontal
+ * pan scrubs and a vertical pan on the right half changes the volume. Shows the seek indicator and the scrub and
+ * volume bubbles while the gestures happen, gestures only work when the player has controls and the seeking ones
+ * only while the player can seek
+ * @param {VideoPlayerState} player - player to control, defaults to the one of the surrounding VideoPlayer
+ * @param {boolean} doubleTapToSeek - default is true, pass false to not seek with a double tap on the sides
+ * @param {number} doubleTapSeekStep - seconds seeked per double tap, default is 10
+ * @param {boolean} swipeToChangeVolume - default is true, pass false to not change the volume with a vertical pan
+ * @param {boolean} panToScrub - default is true, pass false to not scrub with a horizontal pan
+ * @param {number} previewThumbnailWidth - width of the frame preview while scrubbing, default is 160
+ */
+
+type Props = {
+  player?: VideoPlayerState;
+  doubleTapToSeek?: boolean;
+  doubleTapSeekStep?: number;
+  swipeToChangeVolume?: boolean;
+  panToScrub?: boolean;
+  previewThumbnailWidth?: number;
+  children?: React.ReactNode;
+};
+
+export default function GestureArea(props: Props) {
+  const player = useVideoPlayerContext(props.player);
+  const theme = useVideoPlayerTheme();
+  const {
+    screenWidth,
+    screenHeight,
+    duration,
+    currentTime,
+    showControls,
+    labels,
+    formatTime,
+  } = player;
+  const doubleTapToSeek = props.doubleTapToSeek ?? true;
+  const doubleTapSeekStep = props.doubleTapSeekStep ?? 10;
+  const swipeToChangeVolume = props.swipeToChangeVolume ?? true;
+  const panToScrub = props.panToScrub ?? true;
+  const previewThumbnailWidth = props.previewThumbnailWidth ?? 160;
+  const textStyle = getTextStyle(theme);
+
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+  const [gestureVolume, setGestureVolume] = useState<number | null>(null);
+  const [seekIndicator, setSeekIndicator] = useState<{
+    zone: 'left' | 'right';
+    seconds: number;
+  } | null>(null);
+
+  const lastTap = useRef<Tap | null>(null);
+  const controlsBeforeTap = useRef<boolean>(false);
+  const seekIndicatorOpacity = useRef(new Animated.Value(0)).current;
+  const panState = useRef<{
+    intent: PanIntent;
+    startX: number;
+    startY: number;
+    startTime: number;
+    startVolume: number;
+  }>({intent: null, startX: 0, startY: 0, startTime: 0, startVolume: 0});
+
+  const showSeekIndicator = (zone: 'left' | 'right', seconds: number) => {
+    setSeekIndicator(
+      seekIndicator && seekIndicator.zone === zone
+        ? {zone, seconds: seekIndicator.seconds + seconds}
+        : {zone, seconds},
+    );
+    seekIndicatorOpacity.stopAnimation();
+    seekIndicatorOpacity.setValue(1);
+    Animated.timing(seekIndicatorOpacity, {
+      toValue: 0,
+      duration: 300,
+      delay: 500,
+      useNativeDriver: true,
+    }).start(({finished}) => {
+      if (finished) setSeekIndicator(null);
+    });
+  };
+
+  const onVideoAreaTap = (tap: Tap) => {
+    const zone = getTapZone(tap.x, screenWidth);
+    if (
+      doubleTapToSeek &&
+      player.canSeek &&
+      zone !== 'center' &&
+      isDoubleTap(lastTap.current, tap)
+    ) {
+      //the first tap of the double tap has toggled the controls, put them back as they were
+      if (showControls !== controlsBeforeTap.current) {
+        player.toggleControls();
+      }
+      const seconds = zone === 'right' ? doubleTapSeekStep : -doubleTapSeekStep;
+      player.seekBy(seconds);
+      showSeekIndicator(zone, Math.abs(seconds));
+      lastTap.current = tap;
+      return;
+    }
+    lastTap.current = tap;
+    controlsBeforeTap.current = showControls;
+    player.toggleControls();
+  };
+
+  //the part of the video the seek bar covers
+  const scrubRange = player.liveWindow ??
+    player.clip ?? {start: 0, end: duration};
+
+  const onVideoAreaPanMove = (dx: number, dy: number) => {
+    const pan = panState.current;
+    if (pan.intent === null) {
+      const intent = getPanIntent(dx, dy, pan.startX, screenWidth);
+      if (intent === 'scrub' && panToScrub && player.canSeek && duration > 0) {
+        pan.intent = intent;
+        pan.startTime = currentTime;
+        player.beginSeek();
+      } else if (intent === 'volume' && swipeToChangeVolume) {
+        pan.intent = intent;
+        pan.startVolume = player.volume;
+      } else {
+        return;
+      }
+    }
+    if (pan.intent === 'scrub') {
+      setScrubTime(getScrubTime(pan.startTime, dx, screenWidth, scrubRange));
+    } else {
+      const newVolume = getSwipeVolume(pan.startVolume, dy, screenHeight);
+      setGestureVolume(newVolume);
+      player.setVolume(newVolume);
+    }
+  };
+
+  const onVideoAreaPanEnd = (dx: number, dy: number, isTerminated: boolean) => {
+    const pan = panState.current;
+    if (pan.intent === 'scrub') {
+      player.endSeek(getScrubTime(pan.startTime, dx, screenWidth, scrubRange));
+      setScrubTime(null);
+    } else if (pan.intent === 'volume') {
+      setGestureVolume(null);
+    } else if (!isTerminated && !isPan(dx, dy)) {
+      onVideoAreaTap({x: pan.startX, y: pan.startY, time: Date.now()});
+    }
+    pan.intent = null;
+  };
+
+  //the pan responder is created once, so it calls the handlers of the latest render through this ref
+  const gestureHandlers = useRef({
+    onVideoAreaPanMove,
+    onVideoAreaPanEnd,
+  });
+  gestureHandlers.current = {onVideoAreaPanMove, onVideoAreaPanEnd};
+
+  const videoAreaPanResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderGrant: event => {
+        panState.current.intent = null;
+        panState.current.startX = event.nativeEvent.locationX;
+        panState.current.startY = event.nativeEvent.locationY;
+      },
+      onPanResponderMove: (event, gesture) =>
+        gestureHandlers.current.onVideoAreaPanMove(gesture.dx, gesture.dy),
+      onPanResponderRelease: (event, gesture) =>
+        gestureHandlers.current.onVideoAreaPanEnd(
+          gesture.dx,
+          gesture.dy,
+          false,
+        ),
+      onPanResponderTerminate: (event, gesture) =>
+        gestureHandlers.current.onVideoAreaPanEnd(gesture.dx, gesture.dy, true),
+      //keep the gesture once it scrubs or changes the volume, e.g. instead of letting a scroll view take it
+      onPanResponderTerminationRequest: () => panState.current.intent === null,
+    }),
+  ).current;
+
+  const scrubThumbnail =
+    scrubTime !== null ? getThumbnailAt(player.thumbnails, scrubTime) : null;
+  //times within the range like on the seek bar
+  const scrubLabel =
+    scrubTime !== null
+      ? `${formatTime(scrubTime - scrubRange.start)} / ${formatTime(
+          scrubRange.end - scrubRange.start,
+        )}`
+      : '';
+
+  return (
+    <>
+      <View {...(player.controls ? videoAreaPanResponder.panHandlers : {})}>
+        {props.children}
+      </View>
+      {seekIndicator && (
+        <Animated.View
+          pointerEvents="none"
+          style={[
+            styles.seekIndicator,
+            {
+              width: screenWidth / 3,
+              opacity: seekIndicatorOpacity,
+              borderTopLeftRadius: seekIndicator.zone === 'right' ? 999 : 0,
+              borderBottomLeftRadius: seekIndicator.zone === 'right' ? 999 : 0,
+              borderTopRightRadius: seekIndicator.zone === 'left' ? 999 : 0,
+              borderBottomRightRadius: seekIndicator.zone === 'left' ? 999 : 0,
+            },
+            seekIndicator.zone === 'left' ? {left: 0} : {right: 0},
+          ]}>
+          <Text style={[styles.gestureText, textStyle]}>
+            {seekIndicator.zone === 'left'
+              ? labels.seekBackwardIndicator(seekIndicator.seconds)
+              : labels.seekForwardIndicator(seekIndicator.seconds)}
+          </Text>
+        </Animated.View>
+      )}
+      {scrubTime !== null && scrubThumbnail && (
+        <ThumbnailPreview
+          thumbnail={scrubThumbnail}
+          label={scrubLabel}
+          width={previewThumbnailWidth}
+          style={styles.gestureBubble}
+        />
+      )}
+      {((scrubTime !== null && !scrubThumbnail) || gestureVolume !== null) && (
+        <View pointerEvents="none" style={styles.gestureBubble}>
+          <Text style={[styles.gestureText, textStyle]}>
+            {scrubTime !== null
+              ? scrubLabel
+              : labels.volume(Math.round((gestureVolume ?? 0) * 100))}
+          </Text>
+        </View>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,93 @@
+import React from 'react';
+import {
+  Image,
+  StyleProp,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+  ViewStyle,
+} from 'react-native';
+import {useVideoPlayerContext, VideoPlayerState} from './useVideoPlayer';
+import {getIconStyle, getTextStyle, useVideoPlayerTheme} from './theme';
+import styles from './styles';
+
+/**
+ * @description poster of the lazy mode with a play button, the title and the duration. A tap mounts the video
+ * and starts playing it
+ * @param {VideoPlayerState} player - player to start, defaults to the one of the surrounding VideoPlayer
+ * @param {string} title - defaults to the title of the playlist entry
+ * @param {number} duration - seconds shown in the corner, defaults to the duration once the source is preloaded
+ */
+
+type Props = {
+  player?: VideoPlayerState;
+  title?: string;
+  duration?: number;
+  style?: StyleProp<ViewStyle>;
+};
+
+export default function LazyPoster(props: Props) {
+  const player = useVideoPlayerContext(props.player);
+  const theme = useVideoPlayerTheme();
+  const {labels, formatTime, screenWidth, screenHeight} = player;
+  const poster = player.videoProps.poster;
+  const title = props.title ?? player.playlist?.[player.playlistIndex]?.title;
+  const duration =
+    props.duration ?? (player.duration > 0 ? player.duration : undefined);
+  const textStyle = getTextStyle(theme);
+
+  return (
+    <TouchableOpacity
+      activeOpacity={0.8}
+      onPress={player.play}
+      accessibilityRole="button"
+      accessibilityLabel={title ? `${labels.play}, ${title}` : labels.play}
+      style={[
+        styles.absolute,
+        {width: screenWidth, height: screenHeight, backgroundColor: '#000'},
+        props.style,
+      ]}>
+      {!!poster && (
+        <Image
+          source={{uri: poster}}
+          style={StyleSheet.absoluteFill}
+          resizeMode="cover"
+        />
+      )}
+      <View style={[styles.absolute, styles.lazyPosterCenter]}>
+        <Image
+          source={theme.icons.play}
+          style={getIconStyle(theme, 'center')}
+          resizeMode="cover"
+        />
+      </View>
+      {(!!title || duration !== undefined) && (
+        <View style={styles.lazyPosterInfo}>
+          <Text
+            numberOfLines={2}
+            style={[
+              styles.lazyPosterTitle,
+              textStyle,
+              {fontFamily: theme.fonts.boldFamily ?? theme.fonts.family},
+            ]}>
+            {title}
+          </Text>
+          {duration !== undefined && (
+            <Text
+              style={[
+                styles.lazyPosterDuration,
+                textStyle,
+                {
+                  fontSize: theme.fonts.smallSize,
+                  backgroundColor: theme.colors.overlay,
+                },
+              ]}>
+              {formatTime(duration)}
+            </Text>
+          )}
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+}
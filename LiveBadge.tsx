@@ -0,0 +1,73 @@
+import React from 'react';
+import {StyleProp, Text, TouchableOpacity, View, ViewStyle} from 'react-native';
+import {useVideoPlayerContext, VideoPlayerState} from './useVideoPlayer';
+import {getTextStyle, useVideoPlayerTheme} from './theme';
+import styles from './styles';
+
+/**
+ * @description LIVE badge of live streams, turns into a go live button once the playback has fallen
+ * behind the live edge of a dvr stream
+ * @param {VideoPlayerState} player - player to show the live state of, defaults to the one of the surrounding VideoPlayer
+ */
+
+type Props = {
+  player?: VideoPlayerState;
+  style?: StyleProp<ViewStyle>;
+};
+
+export default function LiveBadge(props: Props) {
+  const player = useVideoPlayerContext(props.player);
+  const theme = useVideoPlayerTheme();
+  const {isBehindLive, labels} = player;
+
+  if (!player.isLive) {
+    return null;
+  }
+
+  const content = (
+    <>
+      <View
+        style={[
+          styles.liveDot,
+          {
+            backgroundColor: isBehindLive
+              ? theme.colors.seekBarMaximumTrack
+              : theme.colors.live,
+          },
+        ]}
+      />
+      <Text
+        style={[
+          styles.liveText,
+          getTextStyle(theme),
+          {fontSize: theme.fonts.smallSize},
+        ]}>
+        {isBehindLive ? labels.goLive : labels.live.toUpperCase()}
+      </Text>
+    </>
+  );
+
+  if (!isBehindLive) {
+    return (
+      <View
+        accessible
+        accessibilityLabel={labels.live}
+        style={[styles.liveBadge, props.style]}>
+        {content}
+      </View>
+    );
+  }
+
+  return (
+    <TouchableOpacity
+      onPress={player.goLive}
+      accessibilityRole="button"
+      accessibilityLabel={labels.goLive}
+      accessibilityHint={labels.behindLive(
+        player.formatTime(player.liveLatency),
+      )}
+      style={[styles.liveBadge, props.style]}>
+      {content}
+    </TouchableOpacity>
+  );
+}
@@ -0,0 +1,56 @@
+import React from 'react';
+import {
+  Image,
+  LayoutChangeEvent,
+  StyleProp,
+  TouchableOpacity,
+  ViewStyle,
+} from 'react-native';
+import {useVideoPlayerContext, VideoPlayerState} from './useVideoPlayer';
+import {getIconStyle, useVideoPlayerTheme, VideoPlayerTheme} from './theme';
+
+/**
+ * @description mutes and unmutes the video
+ * @param {VideoPlayerState} player - player to control, defaults to the one of the surrounding VideoPlayer
+ * @param {string} size - center or controlBar, icon size from the theme, default is controlBar
+ * @param {boolean} volumeSlider - default is false, pass true to open the volume menu of the player with a long press
+ */
+
+type Props = {
+  player?: VideoPlayerState;
+  size?: keyof VideoPlayerTheme['iconSizes'];
+  volumeSlider?: boolean;
+  style?: StyleProp<ViewStyle>;
+  onLayout?: (event: LayoutChangeEvent) => void;
+};
+
+export default function MuteButton(props: Props) {
+  const player = useVideoPlayerContext(props.player);
+  const theme = useVideoPlayerTheme();
+
+  return (
+    <TouchableOpacity
+      onPress={player.toggleMute}
+      onLongPress={
+        props.volumeSlider ? () => player.toggleMenu('volume') : undefined
+      }
+      accessibilityRole="button"
+      accessibilityLabel={
+        player.isMute ? player.labels.unmute : player.labels.mute
+      }
+      accessibilityState={
+        props.volumeSlider
+          ? {expanded: player.openMenu === 'volume'}
+          : undefined
+      }
+      onLayout={props.onLayout}
+      style={props.style}
+      {...player.controlsFocusHandlers}>
+      <Image
+        source={player.isMute ? theme.icons.mute : theme.icons.audio}
+        style={getIconStyle(theme, props.size ?? 'controlBar')}
+        resizeMode="cover"
+      />
+    </TouchableOpacity>
+  );
+}
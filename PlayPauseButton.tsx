@@ -0,0 +1,46 @@
+import React from 'react';
+import {
+  Image,
+  Platform,
+  StyleProp,
+  TouchableOpacity,
+  ViewStyle,
+} from 'react-native';
+import {useVideoPlayerContext, VideoPlayerState} from './useVideoPlayer';
+import {getIconStyle, useVideoPlayerTheme, VideoPlayerTheme} from './theme';
+
+/**
+ * @description toggles the playback, restarts the video when it has ended
+ * @param {VideoPlayerState} player - player to control, defaults to the one of the surrounding VideoPlayer
+ * @param {string} size - center or controlBar, icon size from the theme, default is center
+ */
+
+type Props = {
+  player?: VideoPlayerState;
+  size?: keyof VideoPlayerTheme['iconSizes'];
+  style?: StyleProp<ViewStyle>;
+};
+
+export default function PlayPauseButton(props: Props) {
+  const player = useVideoPlayerContext(props.player);
+  const theme = useVideoPlayerTheme();
+
+  return (
+    <TouchableOpacity
+      onPress={player.togglePlay}
+      accessibilityRole="button"
+      accessibilityLabel={
+        player.isPlaying ? player.labels.pause : player.labels.play
+      }
+      //TV remotes start the focus navigation on the play button
+      hasTVPreferredFocus={Platform.isTV && player.showControls}
+      style={props.style}
+      {...player.controlsFocusHandlers}>
+      <Image
+        source={player.isPlaying ? theme.icons.pause : theme.icons.play}
+        style={getIconStyle(theme, props.size ?? 'center')}
+        resizeMode="cover"
+      />
+    </TouchableOpacity>
+  );
+}
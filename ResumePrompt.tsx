@@ -0,0 +1,57 @@
+import React from 'react';
+import {StyleProp, Text, TouchableOpacity, View, ViewStyle} from 'react-native';
+import {useVideoPlayerContext, VideoPlayerState} from './useVideoPlayer';
+import {getTextStyle, useVideoPlayerTheme} from './theme';
+import styles from './styles';
+
+/**
+ * @description asks whether to continue from the saved position or to start over, shown while the player
+ * waits for the answer
+ * @param {VideoPlayerState} player - player to answer for, defaults to the one of the surrounding VideoPlayer
+ */
+
+type Props = {
+  player?: VideoPlayerState;
+  style?: StyleProp<ViewStyle>;
+};
+
+export default function ResumePrompt(props: Props) {
+  const player = useVideoPlayerContext(props.player);
+  const theme = useVideoPlayerTheme();
+  const {resumePromptPosition, labels} = player;
+
+  if (resumePromptPosition === null) {
+    return null;
+  }
+
+  const textStyle = getTextStyle(theme);
+  const buttonStyle = [styles.upNextButton, {borderColor: theme.colors.text}];
+
+  return (
+    <View
+      style={[
+        styles.absolute,
+        styles.upNextView,
+        {backgroundColor: theme.colors.overlay},
+        props.style,
+      ]}>
+      <Text style={[styles.upNextTitle, textStyle]}>
+        {labels.resumeFrom(player.formatTime(resumePromptPosition))}
+      </Text>
+      <View style={styles.rowWithAlignCenter}>
+        <TouchableOpacity
+          onPress={() => player.answerResumePrompt(false)}
+          accessibilityRole="button"
+          style={buttonStyle}>
+          <Text style={[styles.upNextText, textStyle]}>{labels.startOver}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => player.answerResumePrompt(true)}
+          accessibilityRole="button"
+          style={buttonStyle}>
+          <Text style={[styles.upNextText, textStyle]}>{labels.resume}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
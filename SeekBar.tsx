@@ -0,0 +1,144 @@
+import React, {useState} from 'react';
+import {StyleProp, View, ViewStyle} from 'react-native';
+import {Slider} from '@miblanchard/react-native-slider';
+import {useVideoPlayerContext, VideoPlayerState} from './useVideoPlayer';
+import {useVideoPlayerTheme} from './theme';
+import {getThumbnailAt} from './thumbnails';
+import {getSeekTime} from './live';
+import {ACCESSIBILITY_SEEK_STEP} from './accessibility';
+import SeekBarMarks from './SeekBarMarks';
+import ThumbnailPreview from './ThumbnailPreview';
+
+/**
+ * @description seekbar with the chapter gaps and markers of the video, shows the preview frame above
+ * the thumb while seeking when the video has preview thumbnails, covers the dvr window of live streams and the clip
+ * of the startTime and endTime options
+ * @param {VideoPlayerState} player - player to seek, defaults to the one of the surrounding VideoPlayer
+ * @param {number} previewThumbnailWidth - width of the frame preview, default is 160
+ */
+
+type Props = {
+  player?: VideoPlayerState;
+  previewThumbnailWidth?: number;
+  style?: StyleProp<ViewStyle>;
+};
+
+export default function SeekBar(props: Props) {
+  const player = useVideoPlayerContext(props.player);
+  const {colors, seekBar} = useVideoPlayerTheme();
+  const [layout, setLayout] = useState({x: 0, width: 0});
+  const previewThumbnailWidth = props.previewThumbnailWidth ?? 160;
+  const {
+    seekRatio,
+    duration,
+    liveWindow,
+    clip,
+    abRepeat,
+    screenWidth,
+    labels,
+    formatTime,
+  } = player;
+  const range = liveWindow ?? clip;
+  //the A and B of the A–B repeat are shown as markers
+  const abRepeatMarkers = abRepeat
+    ? [abRepeat.a, abRepeat.b]
+        .filter((time): time is number => time !== null)
+        .map(time => ({time}))
+    : [];
+  const thumbSize = seekBar.thumbSize;
+  const thumbnail = player.isSeeking
+    ? getThumbnailAt(player.thumbnails, player.currentTime)
+    : null;
+
+  const onValueChange = (val: number | number[]) => {
+    if (typeof val === 'object') {
+      player.seekTo(getSeekTime(val[0], duration, range), false);
+    }
+  };
+
+  const onSlidingComplete = (val: number | number[]) => {
+    if (typeof val === 'object') {
+      player.endSeek(getSeekTime(val[0], duration, range));
+    }
+  };
+
+  //offset of the seekbar from the left edge of the screen when it sits in the control bar
+  const offset = 8 + layout.x;
+
+  return (
+    <View
+      style={[{flex: 1, marginHorizontal: 8}, props.style]}
+      //the slider is read as a single adjustable element, swiping up or down seeks
+      accessible
+      accessibilityRole="adjustable"
+      accessibilityLabel={labels.seekBar}
+      accessibilityValue={{
+        text: player.isLive
+          ? labels.behindLive(formatTime(player.liveLatency))
+          : labels.seekBarValue(
+              formatTime(player.currentTime - (clip?.start ?? 0)),
+              formatTime((clip?.end ?? duration) - (clip?.start ?? 0)),
+            ),
+      }}
+      accessibilityActions={[{name: 'increment'}, {name: 'decrement'}]}
+      onAccessibilityAction={event =>
+        player.seekBy(
+          event.nativeEvent.actionName === 'increment'
+            ? ACCESSIBILITY_SEEK_STEP
+            : -ACCESSIBILITY_SEEK_STEP,
+        )
+      }
+      onLayout={e =>
+        setLayout({
+          x: e.nativeEvent.layout.x,
+          width: e.nativeEvent.layout.width,
+        })
+      }>
+      <Slider
+        value={seekRatio}
+        minimumTrackTintColor={colors.seekBarMinimumTrack}
+        maximumTrackTintColor={colors.seekBarMaximumTrack}
+        onValueChange={onValueChange}
+        onSlidingStart={player.beginSeek}
+        onSlidingComplete={onSlidingComplete}
+        thumbTintColor={colors.seekBarThumb}
+        thumbStyle={{
+          width: thumbSize,
+          height: thumbSize,
+          borderRadius: thumbSize / 2,
+        }}
+      />
+      {!player.isLive && (
+        <SeekBarMarks
+          width={layout.width}
+          thumbSize={thumbSize}
+          duration={duration}
+          chapters={player.chapters}
+          markers={[...player.markers, ...abRepeatMarkers]}
+          range={clip}
+        />
+      )}
+      {thumbnail && (
+        <ThumbnailPreview
+          thumbnail={thumbnail}
+          label={formatTime(player.currentTime - (clip?.start ?? 0))}
+          width={previewThumbnailWidth}
+          style={{
+            position: 'absolute',
+            bottom: '100%',
+            marginBottom: 8,
+            //keeps the preview above the thumb without letting it leave the screen
+            left:
+              Math.min(
+                Math.max(
+                  offset + seekRatio * layout.width - previewThumbnailWidth / 2,
+                  8,
+                ),
+                screenWidth - previewThumbnailWidth - 8,
+              ) - offset,
+          }}
+        />
+      )}
+    </View>
+  );
+}
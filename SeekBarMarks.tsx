@@ -0,0 +1,72 @@
+import React from 'react';
+import {View} from 'react-native';
+import {Chapter, Marker} from './chapters';
+import {ClipRange} from './clip';
+import styles from './styles';
+import {useVideoPlayerTheme} from './theme';
+
+/**
+ * @description chapter gaps and marker ticks drawn on top of the seekbar track
+ * @param {number} width - width of the seekbar
+ * @param {number} thumbSize - size of the seekbar thumb, the track positions are inset by half of it
+ * @param {number} duration - duration of the video in seconds
+ * @param {ClipRange} range - part of the video the seekbar covers, marks outside of it are left out
+ */
+
+type Props = {
+  width: number;
+  thumbSize: number;
+  duration: number;
+  chapters: Required<Chapter>[];
+  markers: Marker[];
+  range?: ClipRange | null;
+};
+
+export default function SeekBarMarks(props: Props) {
+  const {width, thumbSize, duration, chapters, markers} = props;
+  const start = props.range?.start ?? 0;
+  const end = props.range?.end ?? duration;
+  const {colors} = useVideoPlayerTheme();
+
+  if (end <= start || width <= 0) {
+    return null;
+  }
+
+  //same mapping as the slider uses for its thumb
+  const getPosition = (time: number) =>
+    thumbSize / 2 + ((time - start) / (end - start)) * (width - thumbSize);
+  const isInRange = (time: number) => time >= start && time <= end;
+
+  return (
+    <View pointerEvents="none" style={styles.seekBarMarks}>
+      {chapters
+        .filter(chapter => chapter.start > start && isInRange(chapter.start))
+        .map(chapter => (
+          <View
+            key={`chapter-${chapter.start}`}
+            style={[
+              styles.chapterGap,
+              {
+                left: getPosition(chapter.start) - 1,
+                backgroundColor: colors.chapterGap,
+              },
+            ]}
+          />
+        ))}
+      {markers
+        .filter(marker => isInRange(marker.time))
+        .map((marker, index) => (
+          <View
+            key={`marker-${marker.time}-${index}`}
+            style={[
+              styles.markerTick,
+              {
+                left: getPosition(marker.time) - 2,
+                backgroundColor: marker.color ?? colors.marker,
+              },
+            ]}
+          />
+        ))}
+    </View>
+  );
+}
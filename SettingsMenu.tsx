@@ -0,0 +1,173 @@
+import React, {useState} from 'react';
+import {
+  GestureResponderEvent,
+  StyleProp,
+  Text,
+  TouchableOpacity,
+  View,
+  ViewStyle,
+} from 'react-native';
+import {
+  formatRate,
+  getSelectedLabel,
+  isSameTrack,
+  SelectedAudioTrack,
+  SelectedVideoTrack,
+  SettingsOption,
+} from './settings';
+import {VideoPlayerStrings} from './strings';
+import styles from './styles';
+import {useVideoPlayerTheme} from './theme';
+
+/**
+ * @description settings sheet of the player with the playback speed, video quality and audio track pages,
+ * the quality and audio pages are only listed when there is something to choose from
+ */
+
+type Props = {
+  rateOptions: SettingsOption<number>[];
+  rate: number;
+  onRateSelect: (rate: number) => void;
+  qualityOptions: SettingsOption<SelectedVideoTrack>[];
+  selectedVideoTrack: SelectedVideoTrack;
+  onVideoTrackSelect: (track: SelectedVideoTrack) => void;
+  audioOptions: SettingsOption<SelectedAudioTrack>[];
+  selectedAudioTrack: SelectedAudioTrack;
+  onAudioTrackSelect: (track: SelectedAudioTrack) => void;
+  style?: StyleProp<ViewStyle>;
+  onTouchStart?: (event: GestureResponderEvent) => void;
+  onTouchEnd?: (event: GestureResponderEvent) => void;
+  onFocus?: () => void;
+  onBlur?: () => void;
+  labels: VideoPlayerStrings;
+};
+
+type Page = 'main' | 'rate' | 'quality' | 'audio';
+
+export default function SettingsMenu(props: Props) {
+  const {
+    rateOptions,
+    rate,
+    qualityOptions,
+    selectedVideoTrack,
+    audioOptions,
+    selectedAudioTrack,
+    style,
+    onTouchStart,
+    onTouchEnd,
+    onFocus,
+    onBlur,
+    labels,
+  } = props;
+
+  const [page, setPage] = useState<Page>('main');
+  const {colors, fonts} = useVideoPlayerTheme();
+  const textStyle = [
+    styles.menuText,
+    {color: colors.text, fontFamily: fonts.family, fontSize: fonts.size},
+  ];
+
+  const renderOptions = <T,>(
+    options: SettingsOption<T>[],
+    isSelected: (value: T) => boolean,
+    onSelect: (value: T) => void,
+  ) => (
+    <>
+      <TouchableOpacity
+        onPress={() => setPage('main')}
+        accessibilityRole="button"
+        style={styles.menuItem}
+        onFocus={onFocus}
+        onBlur={onBlur}>
+        <Text style={textStyle}>{labels.back}</Text>
+      </TouchableOpacity>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.label}
+          onPress={() => {
+            onSelect(option.value);
+            setPage('main');
+          }}
+          accessibilityRole="menuitem"
+          accessibilityState={{selected: isSelected(option.value)}}
+          style={styles.menuItem}
+          onFocus={onFocus}
+          onBlur={onBlur}>
+          <Text
+            style={[
+              textStyle,
+              isSelected(option.value) && {
+                fontWeight: 'bold',
+                fontFamily: fonts.boldFamily ?? fonts.family,
+              },
+            ]}>
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </>
+  );
+
+  const renderRow = (title: string, value: string, target: Page) => (
+    <TouchableOpacity
+      onPress={() => setPage(target)}
+      accessibilityRole="menuitem"
+      style={[styles.menuItem, styles.settingsRow]}
+      onFocus={onFocus}
+      onBlur={onBlur}>
+      <Text style={textStyle}>{title}</Text>
+      <Text style={[textStyle, styles.settingsValue]}>{value}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View
+      style={[styles.menu, {backgroundColor: colors.menuBackground}, style]}
+      onTouchStart={onTouchStart}
+      onTouchEnd={onTouchEnd}>
+      {page === 'main' && (
+        <>
+          {renderRow(
+            labels.playbackSpeed,
+            formatRate(rate, labels.normalSpeed),
+            'rate',
+          )}
+          {qualityOptions.length > 1 &&
+            renderRow(
+              labels.quality,
+              getSelectedLabel(
+                qualityOptions,
+                selectedVideoTrack,
+                labels.autoQuality,
+              ),
+              'quality',
+            )}
+          {audioOptions.length > 1 &&
+            renderRow(
+              labels.audio,
+              getSelectedLabel(
+                audioOptions,
+                selectedAudioTrack,
+                labels.defaultAudio,
+              ),
+              'audio',
+            )}
+        </>
+      )}
+      {page === 'rate' &&
+        renderOptions(rateOptions, value => value === rate, props.onRateSelect)}
+      {page === 'quality' &&
+        renderOptions(
+          qualityOptions,
+          value => isSameTrack(value, selectedVideoTrack),
+          props.onVideoTrackSelect,
+        )}
+      {page === 'audio' &&
+        renderOptions(
+          audioOptions,
+          value => isSameTrack(value, selectedAudioTrack),
+          props.onAudioTrackSelect,
+        )}
+    </View>
+  );
+}
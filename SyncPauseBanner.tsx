@@ -0,0 +1,39 @@
+import React from 'react';
+import {StyleProp, Text, View, ViewStyle} from 'react-native';
+import {useVideoPlayerContext, VideoPlayerState} from './useVideoPlayer';
+import {getTextStyle, useVideoPlayerTheme} from './theme';
+import styles from './styles';
+
+/**
+ * @description tells which peer of the synced session paused the playback, hidden during ads
+ * @param {VideoPlayerState} player - synced player, defaults to the one of the surrounding VideoPlayer
+ */
+
+type Props = {
+  player?: VideoPlayerState;
+  style?: StyleProp<ViewStyle>;
+};
+
+export default function SyncPauseBanner(props: Props) {
+  const player = useVideoPlayerContext(props.player);
+  const theme = useVideoPlayerTheme();
+  const {syncPausedBy, labels} = player;
+
+  if (syncPausedBy === null || player.ad) {
+    return null;
+  }
+
+  return (
+    <View
+      pointerEvents="none"
+      style={[
+        styles.syncLabel,
+        {backgroundColor: theme.colors.overlay},
+        props.style,
+      ]}>
+      <Text style={[styles.adText, getTextStyle(theme)]}>
+        {labels.pausedBy(syncPausedBy)}
+      </Text>
+    </View>
+  );
+}
@@ -0,0 +1,91 @@
+import React, {useEffect, useState} from 'react';
+import {Image, StyleProp, Text, View, ViewStyle} from 'react-native';
+import {Thumbnail} from './thumbnails';
+import styles from './styles';
+import {useVideoPlayerTheme} from './theme';
+
+/**
+ * @description frame preview shown while seeking, crops the frame out of the sprite image when the
+ * thumbnail has a #xywh fragment
+ * @param {Thumbnail} thumbnail - the frame to show
+ * @param {string} label - text under the frame, e.g. the time of the frame
+ * @param {number} width - width of the preview, the height follows the aspect ratio of the frame
+ */
+
+type Props = {
+  thumbnail: Thumbnail;
+  label: string;
+  width: number;
+  style?: StyleProp<ViewStyle>;
+};
+
+type Size = {width: number; height: number};
+
+//sprite sizes are needed to crop the frames, they are fetched once per sprite
+const spriteSizes = new Map<string, Size>();
+
+const useImageSize = (uri: string) => {
+  const [size, setSize] = useState<Size | undefined>(spriteSizes.get(uri));
+  useEffect(() => {
+    let isActive = true;
+    if (spriteSizes.has(uri)) {
+      setSize(spriteSizes.get(uri));
+      return;
+    }
+    Image.getSize(
+      uri,
+      (width, height) => {
+        spriteSizes.set(uri, {width, height});
+        if (isActive) setSize({width, height});
+      },
+      () => {},
+    );
+    return () => {
+      isActive = false;
+    };
+  }, [uri]);
+  return size;
+};
+
+export default function ThumbnailPreview(props: Props) {
+  const {thumbnail, label, width, style} = props;
+  const {colors, fonts} = useVideoPlayerTheme();
+  const spriteSize = useImageSize(thumbnail.uri);
+  const {crop} = thumbnail;
+  const frameSize = crop ?? spriteSize;
+  const scale = frameSize ? width / frameSize.width : 0;
+
+  return (
+    <View pointerEvents="none" style={[styles.thumbnailPreview, style]}>
+      <View
+        style={[
+          styles.thumbnailFrame,
+          {
+            borderColor: colors.text,
+            width,
+            height: frameSize ? frameSize.height * scale : width * 0.5625,
+          },
+        ]}>
+        {spriteSize && frameSize && (
+          <Image
+            source={{uri: thumbnail.uri}}
+            style={{
+              position: 'absolute',
+              left: -(crop?.x ?? 0) * scale,
+              top: -(crop?.y ?? 0) * scale,
+              width: spriteSize.width * scale,
+              height: spriteSize.height * scale,
+            }}
+          />
+        )}
+      </View>
+      <Text
+        style={[
+          styles.thumbnailLabel,
+          {color: colors.text, fontFamily: fonts.boldFamily ?? fonts.family},
+        ]}>
+        {label}
+      </Text>
+    </View>
+  );
+}
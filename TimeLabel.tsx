@@ -0,0 +1,49 @@
+import React from 'react';
+import {StyleProp, Text, TextStyle} from 'react-native';
+import {useVideoPlayerContext, VideoPlayerState} from './useVideoPlayer';
+import {getTextStyle, useVideoPlayerTheme} from './theme';
+
+/**
+ * @description current time or duration of the video, styled with the time text style of the theme. For live
+ * streams the current time is the time behind the live edge and the duration is left out, clips count from their start.
+ * A tap switches the duration between the total and the remaining time
+ * @param {VideoPlayerState} player - player to show the time of, defaults to the one of the surrounding VideoPlayer
+ * @param {string} value - currentTime or duration, default is currentTime
+ */
+
+type Props = {
+  player?: VideoPlayerState;
+  value?: 'currentTime' | 'duration';
+  style?: StyleProp<TextStyle>;
+};
+
+export default function TimeLabel(props: Props) {
+  const player = useVideoPlayerContext(props.player);
+  const theme = useVideoPlayerTheme();
+  const {formatTime, isRemainingTimeShown} = player;
+  const clipStart = player.clip?.start ?? 0;
+  const clipDuration = (player.clip?.end ?? player.duration) - clipStart;
+  const elapsed = player.currentTime - clipStart;
+
+  if (player.isLive && (props.value === 'duration' || !player.isDvr)) {
+    return null;
+  }
+
+  let time = formatTime(elapsed);
+  if (player.isLive) {
+    time = `-${formatTime(player.liveLatency)}`;
+  } else if (props.value === 'duration') {
+    time = isRemainingTimeShown
+      ? `-${formatTime(Math.max(clipDuration - elapsed, 0))}`
+      : formatTime(clipDuration);
+  }
+
+  return (
+    <Text
+      onPress={player.isLive ? undefined : player.toggleRemainingTime}
+      suppressHighlighting
+      style={[getTextStyle(theme), theme.textStyles.time, props.style]}>
+      {time}
+    </Text>
+  );
+}
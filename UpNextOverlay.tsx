@@ -0,0 +1,63 @@
+import React from 'react';
+import {StyleProp, Text, TouchableOpacity, View, ViewStyle} from 'react-native';
+import {useVideoPlayerContext, VideoPlayerState} from './useVideoPlayer';
+import {getTextStyle, useVideoPlayerTheme} from './theme';
+import styles from './styles';
+
+/**
+ * @description counts down to the next playlist entry once the video ended, with its title and buttons to
+ * cancel or to play it right away
+ * @param {VideoPlayerState} player - player of the playlist, defaults to the one of the surrounding VideoPlayer
+ */
+
+type Props = {
+  player?: VideoPlayerState;
+  style?: StyleProp<ViewStyle>;
+};
+
+export default function UpNextOverlay(props: Props) {
+  const player = useVideoPlayerContext(props.player);
+  const theme = useVideoPlayerTheme();
+  const {upNextCountdown, nextIndex, playlist, labels} = player;
+
+  if (upNextCountdown === null || nextIndex === null) {
+    return null;
+  }
+
+  const textStyle = getTextStyle(theme);
+  const buttonStyle = [styles.upNextButton, {borderColor: theme.colors.text}];
+  const title = playlist?.[nextIndex]?.title;
+
+  return (
+    <View
+      style={[
+        styles.absolute,
+        styles.upNextView,
+        {backgroundColor: theme.colors.overlay},
+        props.style,
+      ]}>
+      <Text style={[styles.upNextText, textStyle]}>
+        {labels.upNextIn(upNextCountdown)}
+      </Text>
+      {!!title && (
+        <Text style={[styles.upNextTitle, textStyle]} numberOfLines={2}>
+          {title}
+        </Text>
+      )}
+      <View style={styles.rowWithAlignCenter}>
+        <TouchableOpacity
+          onPress={player.cancelUpNext}
+          accessibilityRole="button"
+          style={buttonStyle}>
+          <Text style={[styles.upNextText, textStyle]}>{labels.cancel}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={player.next}
+          accessibilityRole="button"
+          style={buttonStyle}>
+          <Text style={[styles.upNextText, textStyle]}>{labels.playNow}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
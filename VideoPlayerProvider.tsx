@@ -0,0 +1,63 @@
+import React, {
+  createContext,
+  ReactNode,
+  useContext,
+  useEffect,
+  useRef,
+} from 'react';
+import {createPlayerFeed, PlayerFeed, PlayerFeedOptions} from './feed';
+
+export const VideoPlayerFeedContext = createContext<PlayerFeed | null>(null);
+
+/**
+ * @description feed of the closest VideoPlayerProvider, null outside of one. Pass viewabilityConfigCallbackPairs
+ * of it to the FlatList of the feed
+ */
+export const useVideoPlayerFeed = () => useContext(VideoPlayerFeedContext);
+
+/**
+ * @description coordinates every VideoPlayer below it that gets a feedKey: at most maxPlayingPlayers play at the
+ * same time, the most visible one starts playing, the ones scrolled off screen pause and all of them pause when
+ * the screen loses focus. The feedKey of a player is the key of its FlatList item
+ * @param {number} maxPlayingPlayers - default is 1
+ * @param {number} viewabilityThreshold - default is 0.5, part of a player that has to be on screen for it to be visible
+ * @param {boolean} autoplay - default is true, pass false to leave starting the players to the user
+ * @param {boolean} lazyLoad - default is false, pass true to not load the source of players that have never been visible
+ * @param {PlayerFeed} feed - feed made with createPlayerFeed, the options above are passed on to it once the provider
+ *        mounted, pass them to createPlayerFeed too for the players that mount with it
+ */
+
+type Props = PlayerFeedOptions & {
+  feed?: PlayerFeed;
+  children?: ReactNode;
+};
+
+export default function VideoPlayerProvider(props: Props) {
+  const {feed, children, ...options} = props;
+  const {maxPlayingPlayers, viewabilityThreshold, autoplay, lazyLoad} = options;
+  const ownFeed = useRef<PlayerFeed | null>(null);
+
+  const getOwnFeed = () => {
+    if (!ownFeed.current) {
+      ownFeed.current = createPlayerFeed(options);
+    }
+    return ownFeed.current;
+  };
+
+  const value = feed ?? getOwnFeed();
+
+  useEffect(() => {
+    value.setOptions({
+      maxPlayingPlayers,
+      viewabilityThreshold,
+      autoplay,
+      lazyLoad,
+    });
+  }, [value, maxPlayingPlayers, viewabilityThreshold, autoplay, lazyLoad]);
+
+  return (
+    <VideoPlayerFeedContext.Provider value={value}>
+      {children}
+    </VideoPlayerFeedContext.Provider>
+  );
+}
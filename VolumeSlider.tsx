@@ -0,0 +1,69 @@
+import React from 'react';
+import {StyleProp, View, ViewStyle} from 'react-native';
+import {Slider} from '@miblanchard/react-native-slider';
+import {useVideoPlayerContext, VideoPlayerState} from './useVideoPlayer';
+import {useVideoPlayerTheme} from './theme';
+import styles from './styles';
+
+//volume change of one swipe of the screen reader
+const ACCESSIBILITY_VOLUME_STEP = 0.1;
+
+/**
+ * @description vertical volume slider in a popover, the default controls open it with a long press on the mute
+ * button. It sets the volume of the player, which only changes the device volume with followSystemVolume
+ * @param {VideoPlayerState} player - player to set the volume of, defaults to the one of the surrounding VideoPlayer
+ */
+
+type Props = {
+  player?: VideoPlayerState;
+  style?: StyleProp<ViewStyle>;
+};
+
+export default function VolumeSlider(props: Props) {
+  const player = useVideoPlayerContext(props.player);
+  const {colors, seekBar} = useVideoPlayerTheme();
+  const {volume, labels} = player;
+  const thumbSize = seekBar.thumbSize;
+
+  const onValueChange = (val: number | number[]) => {
+    if (typeof val === 'object') {
+      player.setVolume(val[0]);
+    }
+  };
+
+  return (
+    <View
+      style={[
+        styles.volumePopover,
+        {backgroundColor: colors.menuBackground},
+        props.style,
+      ]}
+      accessible
+      accessibilityRole="adjustable"
+      accessibilityLabel={labels.volume(Math.round(volume * 100))}
+      accessibilityActions={[{name: 'increment'}, {name: 'decrement'}]}
+      onAccessibilityAction={event =>
+        player.setVolume(
+          volume +
+            (event.nativeEvent.actionName === 'increment'
+              ? ACCESSIBILITY_VOLUME_STEP
+              : -ACCESSIBILITY_VOLUME_STEP),
+        )
+      }
+      {...player.controlsTouchHandlers}>
+      <Slider
+        vertical
+        value={volume}
+        minimumTrackTintColor={colors.seekBarMinimumTrack}
+        maximumTrackTintColor={colors.seekBarMaximumTrack}
+        onValueChange={onValueChange}
+        thumbTintColor={colors.seekBarThumb}
+        thumbStyle={{
+          width: thumbSize,
+          height: thumbSize,
+          borderRadius: thumbSize / 2,
+        }}
+      />
+    </View>
+  );
+}
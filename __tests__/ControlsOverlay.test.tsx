@@ -0,0 +1,185 @@
+import React from 'react';
+import {fireEvent, render, screen} from '@testing-library/react-native';
+import ControlsOverlay from '../ControlsOverlay';
+import {PlaylistItem} from '../playlist';
+import {createTestPlayer} from './fixtures/player';
+import {withFakeTimers} from './fixtures/timers';
+
+const PLAYLIST: PlaylistItem[] = [
+  {src: {uri: 'https://cdn.test/first.mp4'}},
+  {src: {uri: 'https://cdn.test/second.mp4'}},
+];
+
+describe('ControlsOverlay', () => {
+  withFakeTimers();
+
+  it('renders nothing while the controls are hidden', () => {
+    render(
+      <ControlsOverlay player={createTestPlayer({showControls: false})} />,
+    );
+    expect(screen.queryByRole('button')).toBeNull();
+  });
+
+  it('labels the buttons for the state of the player', () => {
+    render(
+      <ControlsOverlay
+        player={createTestPlayer({isPlaying: false, isMute: true})}
+      />,
+    );
+    expect(screen.getByRole('button', {name: 'Play'})).toBeTruthy();
+    expect(screen.getByRole('button', {name: 'Unmute'})).toBeTruthy();
+    expect(
+      screen.getByRole('button', {name: 'Enter full screen'}),
+    ).toBeTruthy();
+    expect(
+      screen.getByRole('adjustable', {
+        name: 'Seek bar',
+        value: {text: '01:23 of 10:00'},
+      }),
+    ).toBeTruthy();
+  });
+
+  it('seeks 10 seconds with the rewind and forward buttons', () => {
+    const player = createTestPlayer();
+    render(<ControlsOverlay player={player} />);
+    fireEvent.press(screen.getByRole('button', {name: 'Rewind 10 seconds'}));
+    fireEvent.press(screen.getByRole('button', {name: 'Forward 10 seconds'}));
+    expect(player.seekBy).toHaveBeenNthCalledWith(1, -10);
+    expect(player.seekBy).toHaveBeenNthCalledWith(2, 10);
+  });
+
+  it('tells the player when a button gets and loses the focus', () => {
+    const player = createTestPlayer();
+    render(<ControlsOverlay player={player} />);
+    const rewindButton = screen.getByRole('button', {
+      name: 'Rewind 10 seconds',
+    });
+    fireEvent(rewindButton, 'focus');
+    expect(player.controlsFocusHandlers.onFocus).toHaveBeenCalled();
+    fireEvent(rewindButton, 'blur');
+    expect(player.controlsFocusHandlers.onBlur).toHaveBeenCalled();
+  });
+
+  it('disables the next button at the end of the playlist', () => {
+    const player = createTestPlayer({
+      playlist: PLAYLIST,
+      playlistIndex: 1,
+      nextIndex: null,
+      previousIndex: 0,
+    });
+    render(<ControlsOverlay player={player} />);
+    expect(
+      screen.getByRole('button', {name: 'Next video', disabled: true}),
+    ).toBeTruthy();
+    expect(
+      screen.getByRole('button', {name: 'Previous video', disabled: false}),
+    ).toBeTruthy();
+    fireEvent.press(screen.getByRole('button', {name: 'Next video'}));
+    expect(player.next).not.toHaveBeenCalled();
+  });
+
+  it('exposes whether the settings menu is expanded', () => {
+    const player = createTestPlayer();
+    const {rerender} = render(<ControlsOverlay player={player} />);
+    fireEvent.press(
+      screen.getByRole('button', {name: 'Settings', expanded: false}),
+    );
+    expect(player.toggleMenu).toHaveBeenCalledWith('settings');
+    rerender(<ControlsOverlay player={{...player, openMenu: 'settings'}} />);
+    expect(
+      screen.getByRole('button', {name: 'Settings', expanded: true}),
+    ).toBeTruthy();
+  });
+
+  it('exposes whether captions are on and their menu is expanded', () => {
+    const textTracks = [{title: 'English', content: 'WEBVTT'}];
+    const {rerender} = render(
+      <ControlsOverlay player={createTestPlayer({textTracks})} />,
+    );
+    //the query matches checked only for checkbox, radio and switch roles
+    expect(
+      screen.getByRole('button', {name: 'Captions', expanded: false}).props
+        .accessibilityState,
+    ).toMatchObject({checked: false});
+    rerender(
+      <ControlsOverlay
+        player={createTestPlayer({
+          textTracks,
+          selectedTextTrack: 0,
+          openMenu: 'captions',
+        })}
+      />,
+    );
+    expect(
+      screen.getByRole('button', {name: 'Captions', expanded: true}).props
+        .accessibilityState,
+    ).toMatchObject({checked: true});
+    expect(
+      screen.getByRole('menuitem', {name: 'English', selected: true}),
+    ).toBeTruthy();
+    expect(
+      screen.getByRole('menuitem', {name: 'Off', selected: false}),
+    ).toBeTruthy();
+  });
+
+  it('exposes whether the A-B repeat is set', () => {
+    const {rerender} = render(
+      <ControlsOverlay
+        player={createTestPlayer({abRepeat: {a: 10, b: null}})}
+        abRepeatButton
+      />,
+    );
+    expect(
+      screen.getByRole('button', {name: 'A-B repeat'}).props.accessibilityState,
+    ).toEqual({checked: false});
+    expect(screen.getByText('A\u2013')).toBeTruthy();
+    rerender(
+      <ControlsOverlay
+        player={createTestPlayer({abRepeat: {a: 10, b: 20}})}
+        abRepeatButton
+      />,
+    );
+    expect(
+      screen.getByRole('button', {name: 'A-B repeat'}).props.accessibilityState,
+    ).toEqual({checked: true});
+    expect(screen.getByText('A\u2013B')).toBeTruthy();
+  });
+
+  it('exposes whether the volume slider is expanded', () => {
+    render(<ControlsOverlay player={createTestPlayer({openMenu: 'volume'})} />);
+    expect(
+      screen.getByRole('button', {name: 'Mute', expanded: true}),
+    ).toBeTruthy();
+  });
+
+  it('has no seeking controls for a live stream without dvr', () => {
+    render(
+      <ControlsOverlay
+        player={createTestPlayer({isLive: true, isDvr: false})}
+      />,
+    );
+    expect(screen.queryByRole('adjustable')).toBeNull();
+    expect(
+      screen.queryByRole('button', {name: 'Rewind 10 seconds'}),
+    ).toBeNull();
+    expect(
+      screen.queryByRole('button', {name: 'Forward 10 seconds'}),
+    ).toBeNull();
+  });
+
+  it('keeps the seek bar for a dvr stream', () => {
+    render(
+      <ControlsOverlay
+        player={createTestPlayer({
+          isLive: true,
+          isDvr: true,
+          liveWindow: {start: 0, end: 600},
+          liveLatency: 5,
+        })}
+      />,
+    );
+    expect(
+      screen.getByRole('adjustable', {value: {text: '00:05 behind live'}}),
+    ).toBeTruthy();
+  });
+});
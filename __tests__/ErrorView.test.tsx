@@ -0,0 +1,56 @@
+import React from 'react';
+import {Text} from 'react-native';
+import {fireEvent, render, screen} from '@testing-library/react-native';
+import ErrorView from '../ErrorView';
+import {PlayerError} from '../errors';
+import {createTestPlayer} from './fixtures/player';
+import {withFakeTimers} from './fixtures/timers';
+
+const ERROR: PlayerError = {
+  type: 'network',
+  message: 'Check your connection',
+  cause: {error: {'': '', errorString: 'Network error'}},
+};
+
+describe('ErrorView', () => {
+  withFakeTimers();
+
+  it('shows the message of the error with a retry button', () => {
+    const player = createTestPlayer({error: ERROR, hasError: true});
+    render(<ErrorView player={player} />);
+    expect(screen.getByText('Check your connection')).toBeTruthy();
+    fireEvent.press(screen.getByRole('button', {name: 'Retry'}));
+    expect(player.retry).toHaveBeenCalled();
+  });
+
+  it('tells the attempt of an automatic retry', () => {
+    render(
+      <ErrorView
+        player={createTestPlayer({
+          error: ERROR,
+          hasError: true,
+          isAutoRetrying: true,
+          retryAttempt: 2,
+        })}
+      />,
+    );
+    expect(screen.getByText('Retrying (attempt 2 of 3)...')).toBeTruthy();
+  });
+
+  it('renders the custom error view with the retry state', () => {
+    const player = createTestPlayer({error: ERROR, hasError: true});
+    const renderError = jest.fn(() => <Text>Custom error</Text>);
+    render(<ErrorView player={player} renderError={renderError} />);
+    expect(screen.getByText('Custom error')).toBeTruthy();
+    expect(screen.queryByRole('button', {name: 'Retry'})).toBeNull();
+    expect(renderError).toHaveBeenCalledWith({
+      error: ERROR,
+      retry: player.retry,
+      isAutoRetrying: false,
+      attempt: 0,
+      maxAttempts: 3,
+      width: 360,
+      height: 202,
+    });
+  });
+});
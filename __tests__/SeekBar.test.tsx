@@ -0,0 +1,80 @@
+import React from 'react';
+import {fireEvent, render, screen} from '@testing-library/react-native';
+import SeekBar from '../SeekBar';
+import {createTestPlayer} from './fixtures/player';
+
+describe('SeekBar', () => {
+  it('is an adjustable element that reads the position and the duration', () => {
+    render(<SeekBar player={createTestPlayer()} />);
+    expect(
+      screen.getByRole('adjustable', {
+        name: 'Seek bar',
+        value: {text: '01:23 of 10:00'},
+      }),
+    ).toBeTruthy();
+  });
+
+  it('reads the position within the clip', () => {
+    render(
+      <SeekBar
+        player={createTestPlayer({
+          currentTime: 83,
+          clip: {start: 60, end: 180},
+        })}
+      />,
+    );
+    expect(
+      screen.getByRole('adjustable', {value: {text: '00:23 of 02:00'}}),
+    ).toBeTruthy();
+  });
+
+  it('reads the time behind the live edge of a live stream', () => {
+    render(
+      <SeekBar
+        player={createTestPlayer({
+          isLive: true,
+          isDvr: true,
+          liveWindow: {start: 0, end: 600},
+          liveLatency: 30,
+        })}
+      />,
+    );
+    expect(
+      screen.getByRole('adjustable', {value: {text: '00:30 behind live'}}),
+    ).toBeTruthy();
+  });
+
+  it('seeks by a step with the increment and decrement actions', () => {
+    const player = createTestPlayer();
+    render(<SeekBar player={player} />);
+    const seekBar = screen.getByRole('adjustable', {name: 'Seek bar'});
+    fireEvent(seekBar, 'accessibilityAction', {
+      nativeEvent: {actionName: 'increment'},
+    });
+    fireEvent(seekBar, 'accessibilityAction', {
+      nativeEvent: {actionName: 'decrement'},
+    });
+    expect(player.seekBy).toHaveBeenNthCalledWith(1, 10);
+    expect(player.seekBy).toHaveBeenNthCalledWith(2, -10);
+  });
+
+  it('uses the labels of the player', () => {
+    render(
+      <SeekBar
+        player={createTestPlayer({
+          labels: {
+            ...createTestPlayer().labels,
+            seekBar: 'Barra de progreso',
+            seekBarValue: (position, duration) => `${position} de ${duration}`,
+          },
+        })}
+      />,
+    );
+    expect(
+      screen.getByRole('adjustable', {
+        name: 'Barra de progreso',
+        value: {text: '01:23 de 10:00'},
+      }),
+    ).toBeTruthy();
+  });
+});
@@ -0,0 +1,57 @@
+import React from 'react';
+import {fireEvent, render, screen} from '@testing-library/react-native';
+import UpNextOverlay from '../UpNextOverlay';
+import ResumePrompt from '../ResumePrompt';
+import {PlaylistItem} from '../playlist';
+import {createTestPlayer} from './fixtures/player';
+import {withFakeTimers} from './fixtures/timers';
+
+const PLAYLIST: PlaylistItem[] = [
+  {src: {uri: 'https://cdn.test/first.mp4'}, title: 'First'},
+  {src: {uri: 'https://cdn.test/second.mp4'}, title: 'Second'},
+];
+
+describe('UpNextOverlay', () => {
+  withFakeTimers();
+
+  it('renders nothing without a countdown', () => {
+    render(
+      <UpNextOverlay
+        player={createTestPlayer({playlist: PLAYLIST, nextIndex: 1})}
+      />,
+    );
+    expect(screen.queryByRole('button')).toBeNull();
+  });
+
+  it('counts down to the title of the next entry', () => {
+    const player = createTestPlayer({
+      playlist: PLAYLIST,
+      nextIndex: 1,
+      upNextCountdown: 5,
+    });
+    render(<UpNextOverlay player={player} />);
+    expect(screen.getByText('Up next in 5s')).toBeTruthy();
+    expect(screen.getByText('Second')).toBeTruthy();
+    fireEvent.press(screen.getByRole('button', {name: 'Cancel'}));
+    fireEvent.press(screen.getByRole('button', {name: 'Play now'}));
+    expect(player.cancelUpNext).toHaveBeenCalled();
+    expect(player.next).toHaveBeenCalled();
+  });
+});
+
+describe('ResumePrompt', () => {
+  it('renders nothing without a saved position', () => {
+    render(<ResumePrompt player={createTestPlayer()} />);
+    expect(screen.queryByRole('button')).toBeNull();
+  });
+
+  it('answers whether to continue from the saved position', () => {
+    const player = createTestPlayer({resumePromptPosition: 83});
+    render(<ResumePrompt player={player} />);
+    expect(screen.getByText('Resume from 01:23?')).toBeTruthy();
+    fireEvent.press(screen.getByRole('button', {name: 'Start over'}));
+    fireEvent.press(screen.getByRole('button', {name: 'Resume'}));
+    expect(player.answerResumePrompt).toHaveBeenNthCalledWith(1, false);
+    expect(player.answerResumePrompt).toHaveBeenNthCalledWith(2, true);
+  });
+});
@@ -0,0 +1,276 @@
+import {readFileSync} from 'fs';
+import {join} from 'path';
+import {
+  AdHttp,
+  AdTrackingEvent,
+  firePixels,
+  getQuartileEvents,
+  loadAdSchedule,
+  parseVmap,
+  resolveVastAds,
+  VAST_NO_ADS_ERROR,
+  VAST_WRAPPER_LIMIT_ERROR,
+} from '../ads';
+import {getAll, getChild, parseXml} from '../xml';
+
+const readFixture = (name: string) =>
+  readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+const TAGS: Record<string, string> = {
+  'https://ads.test/inline.xml': 'vast-inline.xml',
+  'https://ads.test/wrapper.xml': 'vast-wrapper.xml',
+  'https://ads.test/wrapper-loop.xml': 'vast-wrapper-loop.xml',
+  'https://ads.test/malformed.xml': 'vast-malformed.xml',
+  'https://ads.test/vmap.xml': 'vmap.xml',
+};
+
+//serves the fixtures for the ad tags, every other url is a tracking pixel
+const createHttp = () =>
+  jest.fn<ReturnType<AdHttp>, Parameters<AdHttp>>(async url =>
+    TAGS[url] ? readFixture(TAGS[url]) : '',
+  );
+
+const getPixels = (http: ReturnType<typeof createHttp>) =>
+  http.mock.calls.map(([url]) => url).filter(url => !TAGS[url]);
+
+describe('parseXml', () => {
+  it('parses elements, attributes, entities and CDATA', () => {
+    const root = parseXml(readFixture('vast-inline.xml'));
+    expect(root.name).toBe('VAST');
+    expect(root.attributes).toEqual({version: '4.0'});
+    const first = root.children[1];
+    expect(first.attributes).toEqual({id: 'first', sequence: '1'});
+    expect(getChild(getChild(first, 'InLine'), 'AdTitle')?.text).toBe(
+      'First & best ad',
+    );
+    expect(getChild(getChild(first, 'InLine'), 'Impression')?.text).toBe(
+      'https://track.test/first/impression?cb=[CACHEBUSTING]',
+    );
+  });
+
+  it('matches the names without their namespace prefix', () => {
+    const root = parseXml(readFixture('vmap.xml'));
+    expect(root.name).toBe('vmap:VMAP');
+    expect(getAll(root, 'AdBreak', 'AdSource')).toHaveLength(5);
+  });
+
+  it('decodes numeric entities and keeps self closing elements', () => {
+    const root = parseXml('<a b="&#65;&#x42;"><c/>&lt;d&gt;</a>');
+    expect(root).toEqual({
+      name: 'a',
+      attributes: {b: 'AB'},
+      children: [{name: 'c', attributes: {}, children: [], text: ''}],
+      text: '<d>',
+    });
+  });
+
+  it('throws on malformed xml', () => {
+    expect(() => parseXml(readFixture('vast-malformed.xml'))).toThrow(
+      'Unexpected closing tag VAST',
+    );
+    expect(() => parseXml('<VAST><Ad>')).toThrow('Unclosed tag Ad');
+    expect(() => parseXml('<!-- nothing -->')).toThrow('Empty xml document');
+  });
+});
+
+describe('parseVmap', () => {
+  const breaks = parseVmap(readFixture('vmap.xml'));
+
+  it('reads the pre-roll, the mid-rolls and the post-roll', () => {
+    expect(breaks.map(adBreak => adBreak.offset)).toEqual([
+      'start',
+      300,
+      '50%',
+      'end',
+    ]);
+    expect(breaks[0].tagUrl).toBe('https://ads.test/wrapper.xml');
+    expect(breaks[3].tagUrl).toBe('https://ads.test/inline.xml');
+  });
+
+  it('leaves out the breaks with a position offset', () => {
+    expect(breaks.some(adBreak => adBreak.tagUrl?.includes('position'))).toBe(
+      false,
+    );
+  });
+
+  it('hands on inline VAST data as xml', async () => {
+    expect(breaks[1].tagUrl).toBeUndefined();
+    const [ad] = await resolveVastAds({vast: breaks[1].vast}, createHttp());
+    expect(ad.title).toBe('Mid & roll');
+    expect(ad.duration).toBe(15);
+    expect(ad.mediaFile.uri).toBe('https://cdn.test/mid.mp4?a=1&b=2');
+  });
+
+  it('is loaded from the vmap url through the http of the config', async () => {
+    const http = createHttp();
+    const schedule = await loadAdSchedule({
+      vmapUrl: 'https://ads.test/vmap.xml',
+      http,
+    });
+    expect(http).toHaveBeenCalledWith('https://ads.test/vmap.xml');
+    expect(schedule).toHaveLength(4);
+    expect(schedule.every(adBreak => !adBreak.isPlayed)).toBe(true);
+  });
+});
+
+describe('resolveVastAds', () => {
+  it('parses the inline ads in the order of their sequence', async () => {
+    const http = createHttp();
+    const ads = await resolveVastAds(
+      {tagUrl: 'https://ads.test/inline.xml'},
+      http,
+    );
+    expect(ads.map(ad => ad.id)).toEqual(['first', 'second']);
+    expect(ads[0]).toMatchObject({
+      title: 'First & best ad',
+      duration: 30.5,
+      skipOffset: 5,
+      clickThrough: 'https://advertiser.test/?a=1&b=2',
+      mediaFile: {
+        uri: 'https://cdn.test/first-1280.mp4',
+        type: 'video/mp4',
+        width: 1280,
+        height: 720,
+        bitrate: 2000,
+      },
+    });
+    expect(ads[1].skipOffset).toBeNull();
+    expect(getPixels(http)).toEqual([]);
+  });
+
+  it('adds the tracking urls of the wrapper to the ads it leads to', async () => {
+    const http = createHttp();
+    const [first, second] = await resolveVastAds(
+      {tagUrl: 'https://ads.test/wrapper.xml'},
+      http,
+    );
+    expect(http.mock.calls.map(([url]) => url)).toEqual([
+      'https://ads.test/wrapper.xml',
+      'https://ads.test/inline.xml',
+    ]);
+    expect(first.tracking.impression).toEqual([
+      'https://track.test/wrapper/impression',
+      'https://track.test/first/impression?cb=[CACHEBUSTING]',
+    ]);
+    expect(first.tracking.firstQuartile).toEqual([
+      'https://track.test/wrapper/q1',
+      'https://track.test/first/q1',
+    ]);
+    expect(second.tracking.firstQuartile).toEqual([
+      'https://track.test/wrapper/q1',
+    ]);
+  });
+
+  it('gives up a wrapper chain at the depth limit and fires its error urls', async () => {
+    const http = createHttp();
+    const ads = await resolveVastAds(
+      {tagUrl: 'https://ads.test/wrapper-loop.xml'},
+      http,
+      2,
+    );
+    expect(ads).toEqual([]);
+    const tags = http.mock.calls.map(([url]) => url).filter(url => TAGS[url]);
+    expect(tags).toHaveLength(3);
+    //every wrapper of the chain has its error url fired
+    expect(getPixels(http)).toEqual(
+      Array(3).fill(
+        `https://track.test/loop/error?code=${VAST_WRAPPER_LIMIT_ERROR}`,
+      ),
+    );
+  });
+
+  it('fires the error urls of the wrapper when the wrapped tag is malformed', async () => {
+    const http = createHttp();
+    const ads = await resolveVastAds(
+      {
+        vast: readFixture('vast-wrapper.xml').replace(
+          'https://ads.test/inline.xml',
+          'https://ads.test/malformed.xml',
+        ),
+      },
+      http,
+    );
+    expect(ads).toEqual([]);
+    expect(getPixels(http)).toEqual([
+      'https://track.test/wrapper/error?code=900',
+    ]);
+  });
+
+  it('rejects a malformed tag that is not wrapped', async () => {
+    await expect(
+      resolveVastAds({tagUrl: 'https://ads.test/malformed.xml'}, createHttp()),
+    ).rejects.toThrow('Unexpected closing tag VAST');
+  });
+
+  it('fires the error urls of an empty response', async () => {
+    const http = createHttp();
+    const ads = await resolveVastAds(
+      {
+        vast: '<VAST><Error>https://track.test/empty?code=[ERRORCODE]</Error></VAST>',
+      },
+      http,
+    );
+    expect(ads).toEqual([]);
+    expect(getPixels(http)).toEqual([
+      `https://track.test/empty?code=${VAST_NO_ADS_ERROR}`,
+    ]);
+  });
+});
+
+describe('tracking', () => {
+  it('fires every quartile once while the ad plays', async () => {
+    const [ad] = await resolveVastAds(
+      {tagUrl: 'https://ads.test/wrapper.xml'},
+      createHttp(),
+    );
+    const http = createHttp();
+    const events: AdTrackingEvent[] = [];
+    //progress ticks of the ad, the player reports about every 250ms but can skip ahead
+    [0, 0.25, 7.5, 7.75, 15.25, 16, 29, 30.5].reduce((previous, time) => {
+      getQuartileEvents(previous, time, ad.duration).forEach(event => {
+        events.push(event);
+        firePixels(ad.tracking[event], http);
+      });
+      return time;
+    }, 0);
+    expect(events).toEqual(['firstQuartile', 'midpoint', 'thirdQuartile']);
+    expect(getPixels(http)).toEqual([
+      'https://track.test/wrapper/q1',
+      'https://track.test/first/q1',
+      'https://track.test/first/mid',
+      'https://track.test/first/q3',
+    ]);
+  });
+
+  it('replaces the macros of the tracking urls', () => {
+    const http = createHttp();
+    firePixels(
+      [
+        'https://track.test/first/impression?cb=[CACHEBUSTING]',
+        'https://track.test/first/error?code=[ERRORCODE]',
+      ],
+      http,
+      405,
+    );
+    const [impression, error] = getPixels(http);
+    expect(impression).toMatch(
+      /^https:\/\/track\.test\/first\/impression\?cb=\d+$/,
+    );
+    expect(error).toBe('https://track.test/first/error?code=405');
+  });
+
+  it('does not let a failing pixel reject', async () => {
+    const http = jest.fn<ReturnType<AdHttp>, Parameters<AdHttp>>(() =>
+      Promise.reject(new Error('offline')),
+    );
+    expect(() =>
+      firePixels(['https://track.test/first/start'], http),
+    ).not.toThrow();
+    await Promise.resolve();
+    expect(http).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports no quartiles for an ad without a duration', () => {
+    expect(getQuartileEvents(0, 10, 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,186 @@
+import {readFileSync} from 'fs';
+import {join} from 'path';
+import {
+  getActiveCues,
+  parseCaptions,
+  parseCueText,
+  parseSRT,
+  parseTimestamp,
+  parseWebVTT,
+} from '../captions';
+
+const readFixture = (name: string) =>
+  readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+describe('parseTimestamp', () => {
+  it('parses WebVTT and SRT timestamps into seconds', () => {
+    expect(parseTimestamp('00:01.000')).toBe(1);
+    expect(parseTimestamp('01:02:03.456')).toBeCloseTo(3723.456);
+    expect(parseTimestamp('00:00:01,250')).toBe(1.25);
+    expect(parseTimestamp('00:00:01.5')).toBe(1.5);
+  });
+
+  it('returns null for a malformed timestamp', () => {
+    expect(parseTimestamp('1.000')).toBeNull();
+    expect(parseTimestamp('aa:bb.ccc')).toBeNull();
+  });
+});
+
+describe('parseCueText', () => {
+  it('keeps <b> and <i> as styling of the spans', () => {
+    expect(parseCueText('plain <b>bold <i>both</i></b> <i>italic</i>')).toEqual(
+      [
+        [
+          {text: 'plain ', bold: false, italic: false},
+          {text: 'bold ', bold: true, italic: false},
+          {text: 'both', bold: true, italic: true},
+          {text: ' ', bold: false, italic: false},
+          {text: 'italic', bold: false, italic: true},
+        ],
+      ],
+    );
+  });
+
+  it('carries the styling of an unclosed tag to the next line', () => {
+    expect(parseCueText('<i>first\nsecond</i> third')).toEqual([
+      [{text: 'first', bold: false, italic: true}],
+      [
+        {text: 'second', bold: false, italic: true},
+        {text: ' third', bold: false, italic: false},
+      ],
+    ]);
+  });
+
+  it('drops the other tags and decodes entities', () => {
+    expect(
+      parseCueText('<v Speaker>a</v> <c.loud>b</c> <u>c</u> &lt;d&gt;'),
+    ).toEqual([[{text: 'a b c <d>', bold: false, italic: false}]]);
+  });
+});
+
+describe('parseWebVTT', () => {
+  const cues = parseWebVTT(readFixture('captions.vtt'));
+
+  it('skips the header, NOTE and STYLE blocks', () => {
+    expect(cues).toHaveLength(4);
+  });
+
+  it('parses the timing of the cues', () => {
+    expect(cues.map(cue => [cue.start, cue.end])).toEqual([
+      [1, 4.5],
+      [5.25, 8],
+      [9, 10],
+      [3600, 3601.5],
+    ]);
+  });
+
+  it('parses the styled text of a cue with an identifier', () => {
+    expect(cues[0].lines).toEqual([
+      [
+        {text: 'Hello ', bold: false, italic: false},
+        {text: 'world', bold: true, italic: false},
+      ],
+    ]);
+    expect(cues[2].lines).toEqual([
+      [{text: 'bold italic', bold: true, italic: true}],
+    ]);
+  });
+
+  it('keeps every line of a multi-line cue', () => {
+    expect(cues[1].lines).toEqual([
+      [{text: 'Two lines,', bold: false, italic: true}],
+      [{text: 'second line & more', bold: false, italic: false}],
+    ]);
+  });
+
+  it('parses the line and align settings', () => {
+    expect(cues[0].position).toEqual({
+      line: null,
+      lineIsPercentage: false,
+      align: 'center',
+    });
+    expect(cues[1].position).toEqual({
+      line: 10,
+      lineIsPercentage: true,
+      align: 'start',
+    });
+    expect(cues[2].position).toEqual({
+      line: -2,
+      lineIsPercentage: false,
+      align: 'right',
+    });
+  });
+
+  it('ignores an unknown align value', () => {
+    expect(cues[3].position.align).toBe('center');
+  });
+});
+
+describe('parseSRT', () => {
+  const cues = parseSRT(readFixture('captions.srt'));
+
+  it('parses the cues of a CRLF file and skips the ones ending before they start', () => {
+    expect(cues.map(cue => [cue.start, cue.end])).toEqual([
+      [1, 2.5],
+      [3, 5],
+      [6, 7],
+      [8, 9],
+    ]);
+    expect(cues[0].lines).toEqual([
+      [
+        {text: 'First ', bold: false, italic: false},
+        {text: 'cue', bold: false, italic: true},
+      ],
+    ]);
+  });
+
+  it('positions the cues with the {\\anN} tag and removes it from the text', () => {
+    expect(cues[0].position).toEqual({
+      line: null,
+      lineIsPercentage: false,
+      align: 'center',
+    });
+    expect(cues[1].position).toEqual({
+      line: 0,
+      lineIsPercentage: true,
+      align: 'center',
+    });
+    expect(cues[1].lines).toEqual([
+      [{text: 'On top', bold: false, italic: false}],
+      [{text: 'of the video', bold: false, italic: false}],
+    ]);
+    expect(cues[2].position).toEqual({
+      line: 50,
+      lineIsPercentage: true,
+      align: 'left',
+    });
+    expect(cues[3].position).toEqual({
+      line: null,
+      lineIsPercentage: false,
+      align: 'right',
+    });
+  });
+});
+
+describe('parseCaptions', () => {
+  it('guesses the format from the uri or the content', () => {
+    expect(
+      parseCaptions({title: 'en', uri: 'https://cdn/en.srt?v=1'}, ''),
+    ).toEqual([]);
+    expect(
+      parseCaptions({title: 'en'}, readFixture('captions.vtt')),
+    ).toHaveLength(4);
+    expect(
+      parseCaptions({title: 'en'}, readFixture('captions.srt'))[1].position
+        .line,
+    ).toBe(0);
+  });
+});
+
+describe('getActiveCues', () => {
+  it('returns the cues on screen at the time, the end is exclusive', () => {
+    const cues = parseWebVTT(readFixture('captions.vtt'));
+    expect(getActiveCues(cues, 1)).toEqual([cues[0]]);
+    expect(getActiveCues(cues, 4.5)).toEqual([]);
+  });
+});
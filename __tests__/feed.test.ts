@@ -0,0 +1,108 @@
+import {ViewToken} from 'react-native';
+import {createPlayerFeed, PlayerFeed} from '../feed';
+
+const createControls = () => ({
+  play: jest.fn(),
+  pause: jest.fn(),
+  load: jest.fn(),
+});
+
+//what FlatList reports to every pair for items with the given part of them on screen
+const reportVisibility = (feed: PlayerFeed, visibility: number[]) => {
+  feed.viewabilityConfigCallbackPairs.forEach(
+    ({viewabilityConfig, onViewableItemsChanged}) => {
+      const threshold =
+        (viewabilityConfig?.itemVisiblePercentThreshold ?? 0) / 100;
+      const viewableItems: ViewToken[] = visibility
+        .map((part, index) => ({
+          key: `${index}`,
+          index,
+          item: null,
+          isViewable: part >= threshold,
+        }))
+        .filter(item => item.isViewable);
+      onViewableItemsChanged?.({viewableItems, changed: viewableItems});
+    },
+  );
+  jest.runAllTimers();
+};
+
+describe('createPlayerFeed', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('plays the most visible player instead of the first viewable one', () => {
+    const feed = createPlayerFeed();
+    const first = createControls();
+    const second = createControls();
+    feed.register('0', first, {isTracked: true, autoplay: true});
+    feed.register('1', second, {isTracked: true, autoplay: true});
+    reportVisibility(feed, [0.55, 0.95]);
+    expect(second.play).toHaveBeenCalledTimes(1);
+    expect(first.play).not.toHaveBeenCalled();
+  });
+
+  it('plays the first one by index when they are as visible', () => {
+    const feed = createPlayerFeed();
+    const first = createControls();
+    const second = createControls();
+    feed.register('0', first, {isTracked: true, autoplay: true});
+    feed.register('1', second, {isTracked: true, autoplay: true});
+    reportVisibility(feed, [1, 1]);
+    expect(first.play).toHaveBeenCalledTimes(1);
+    expect(second.play).not.toHaveBeenCalled();
+  });
+
+  it('pauses a player that falls under the threshold', () => {
+    const feed = createPlayerFeed({viewabilityThreshold: 0.6});
+    const player = createControls();
+    feed.register('0', player, {isTracked: true, autoplay: true});
+    reportVisibility(feed, [0.65]);
+    expect(player.play).toHaveBeenCalledTimes(1);
+    reportVisibility(feed, [0.55]);
+    expect(player.pause).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses the reported visibility for players that register later', () => {
+    const feed = createPlayerFeed({lazyLoad: true});
+    reportVisibility(feed, [0.2, 0.8]);
+    const first = createControls();
+    const second = createControls();
+    feed.register('0', first, {isTracked: true, autoplay: true});
+    feed.register('1', second, {isTracked: true, autoplay: true});
+    expect(second.load).toHaveBeenCalledTimes(1);
+    expect(second.play).toHaveBeenCalledTimes(1);
+    expect(first.load).not.toHaveBeenCalled();
+    expect(feed.shouldDeferLoad('0')).toBe(true);
+    expect(feed.shouldDeferLoad('1')).toBe(false);
+  });
+
+  it('takes the visibility of setVisibility', () => {
+    const feed = createPlayerFeed();
+    const first = createControls();
+    const second = createControls();
+    feed.register('0', first, {isTracked: true, autoplay: true});
+    feed.register('1', second, {isTracked: true, autoplay: true});
+    feed.setVisibility('0', 0.7);
+    feed.setVisibility('1', 0.72);
+    expect(first.play).toHaveBeenCalledTimes(1);
+    expect(second.play).toHaveBeenCalledTimes(1);
+  });
+
+  it('applies a threshold that is set after the feed was created', () => {
+    const feed = createPlayerFeed();
+    const controls = createControls();
+    feed.register('0', controls, {isTracked: true, autoplay: true});
+    reportVisibility(feed, [0.6]);
+    expect(controls.play).toHaveBeenCalledTimes(1);
+    feed.setOptions({viewabilityThreshold: 0.8});
+    expect(controls.pause).toHaveBeenCalledTimes(1);
+    reportVisibility(feed, [0.8]);
+    expect(controls.play).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,125 @@
+import {createRef} from 'react';
+import {VideoPlayerState} from '../../useVideoPlayer';
+import {defaultStrings} from '../../strings';
+import {msToTime} from '../../time';
+
+/**
+ * @description player state for rendering the controls without a video, a 10 minute video at 1:23 with
+ * the controls shown. Every action is a jest mock
+ */
+export const createTestPlayer = (
+  overrides: Partial<VideoPlayerState> = {},
+): VideoPlayerState => ({
+  videoProps: {
+    ref: createRef(),
+    source: {uri: 'https://cdn.test/video.mp4'},
+    paused: false,
+    muted: false,
+    volume: 1,
+    rate: 1,
+    selectedVideoTrack: {type: 'auto'},
+    selectedAudioTrack: {type: 'system'},
+    onLoad: jest.fn(),
+    onReadyForDisplay: jest.fn(),
+    onProgress: jest.fn(),
+    onEnd: jest.fn(),
+    onBuffer: jest.fn(),
+    onSeek: jest.fn(),
+    onError: jest.fn(),
+  },
+  sessionId: null,
+  sourceIndex: 0,
+  isSourceDeferred: false,
+  isPosterShown: false,
+  syncPausedBy: null,
+  isPlaying: true,
+  isLoading: false,
+  isVideoReady: true,
+  currentTime: 83,
+  duration: 600,
+  seekRatio: 83 / 600,
+  isSeeking: false,
+  isLive: false,
+  isDvr: false,
+  canSeek: true,
+  liveWindow: null,
+  liveLatency: 0,
+  isBehindLive: false,
+  ad: null,
+  clip: null,
+  abRepeat: null,
+  isMute: false,
+  volume: 1,
+  isFullScreen: false,
+  fullScreenMode: 'legacy',
+  isStatusBarHidden: false,
+  screenWidth: 360,
+  screenHeight: 202,
+  controls: true,
+  showControls: true,
+  isScreenReaderEnabled: false,
+  labels: defaultStrings,
+  formatTime: msToTime,
+  isRemainingTimeShown: false,
+  error: null,
+  hasError: false,
+  isAutoRetrying: false,
+  retryAttempt: 0,
+  maxRetryAttempts: 3,
+  playlist: undefined,
+  playlistIndex: 0,
+  nextIndex: null,
+  previousIndex: null,
+  upNextCountdown: null,
+  textTracks: [],
+  selectedTextTrack: null,
+  captionCues: [],
+  rate: 1,
+  videoTracks: [],
+  audioTracks: [],
+  selectedVideoTrack: {type: 'auto'},
+  selectedAudioTrack: {type: 'system'},
+  thumbnails: [],
+  chapters: [],
+  currentChapterIndex: -1,
+  markers: [],
+  resumePromptPosition: null,
+  openMenu: null,
+  play: jest.fn(),
+  pause: jest.fn(),
+  togglePlay: jest.fn(),
+  seekTo: jest.fn(),
+  seekBy: jest.fn(),
+  goLive: jest.fn(),
+  skipAd: jest.fn(),
+  toggleABRepeat: jest.fn(),
+  setABRepeat: jest.fn(),
+  clearABRepeat: jest.fn(),
+  toggleRemainingTime: jest.fn(),
+  beginSeek: jest.fn(),
+  endSeek: jest.fn(),
+  setMuted: jest.fn(),
+  toggleMute: jest.fn(),
+  setVolume: jest.fn(),
+  toggleFullScreen: jest.fn(),
+  setFullScreenSize: jest.fn(),
+  toggleControls: jest.fn(),
+  controlsTouchHandlers: {onTouchStart: jest.fn(), onTouchEnd: jest.fn()},
+  controlsFocusHandlers: {onFocus: jest.fn(), onBlur: jest.fn()},
+  handleKey: jest.fn(() => false),
+  retry: jest.fn(),
+  next: jest.fn(),
+  previous: jest.fn(),
+  playItem: jest.fn(),
+  cancelUpNext: jest.fn(),
+  selectTextTrack: jest.fn(),
+  setRate: jest.fn(),
+  setSelectedVideoTrack: jest.fn(),
+  setSelectedAudioTrack: jest.fn(),
+  nextChapter: jest.fn(),
+  previousChapter: jest.fn(),
+  answerResumePrompt: jest.fn(),
+  toggleMenu: jest.fn(),
+  closeMenu: jest.fn(),
+  ...overrides,
+});
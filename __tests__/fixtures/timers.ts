@@ -0,0 +1,13 @@
+/**
+ * @description runs every test of the file on fake timers, the press animations of the buttons would
+ * otherwise update the components after the test
+ */
+export const withFakeTimers = () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+};
@@ -0,0 +1,96 @@
+import {
+  defaultKeyMap,
+  getKeyCommand,
+  mergeKeyMap,
+  normalizeKey,
+} from '../keyboard';
+
+describe('normalizeKey', () => {
+  it('keeps the KeyboardEvent.key names', () => {
+    expect(normalizeKey('ArrowLeft')).toBe('ArrowLeft');
+    expect(normalizeKey('MediaPlayPause')).toBe('MediaPlayPause');
+    expect(normalizeKey(' ')).toBe(' ');
+  });
+
+  it('turns the TV event names into the KeyboardEvent.key names', () => {
+    expect(normalizeKey('left')).toBe('ArrowLeft');
+    expect(normalizeKey('select')).toBe('Enter');
+    expect(normalizeKey('playPause')).toBe('MediaPlayPause');
+    expect(normalizeKey('fastForward')).toBe('MediaFastForward');
+  });
+
+  it('turns the names of older browsers into the KeyboardEvent.key names', () => {
+    expect(normalizeKey('Spacebar')).toBe(' ');
+    expect(normalizeKey('Right')).toBe('ArrowRight');
+  });
+
+  it('lower cases letters', () => {
+    expect(normalizeKey('K')).toBe('k');
+  });
+
+  it('turns the android key codes into the KeyboardEvent.key names', () => {
+    expect(normalizeKey(22)).toBe('ArrowRight');
+    expect(normalizeKey(85)).toBe('MediaPlayPause');
+    expect(normalizeKey(41)).toBe('m');
+    expect(normalizeKey(300)).toBe('300');
+  });
+});
+
+describe('mergeKeyMap', () => {
+  it('is the default map without overrides', () => {
+    expect(mergeKeyMap()).toEqual(defaultKeyMap);
+  });
+
+  it('adds and overrides keys under their normalized names', () => {
+    const keyMap = mergeKeyMap({N: 'next', right: 'next'});
+    expect(keyMap.n).toBe('next');
+    expect(keyMap.ArrowRight).toBe('next');
+    expect(keyMap.right).toBeUndefined();
+    expect(keyMap.ArrowLeft).toBe('seekBackward');
+  });
+
+  it('turns a default key off with null', () => {
+    const keyMap = mergeKeyMap({m: null});
+    expect(keyMap.m).toBeNull();
+    expect(getKeyCommand('m', keyMap, false, true)).toBeNull();
+  });
+});
+
+describe('getKeyCommand', () => {
+  const keyMap = mergeKeyMap();
+
+  it('maps the keys of the default map', () => {
+    expect(getKeyCommand(' ', keyMap, false, true)).toBe('togglePlay');
+    expect(getKeyCommand('j', keyMap, false, true)).toBe('seekBackward');
+    expect(getKeyCommand('F', keyMap, false, true)).toBe('toggleFullScreen');
+    expect(getKeyCommand('MediaTrackNext', keyMap, false, true)).toBe('next');
+  });
+
+  it('maps a TV event and a key code like the key they stand for', () => {
+    expect(getKeyCommand('playPause', keyMap, true, true)).toBe('togglePlay');
+    expect(getKeyCommand(126, keyMap, true, true)).toBe('play');
+  });
+
+  it('is null for a key that is not mapped', () => {
+    expect(getKeyCommand('q', keyMap, false, true)).toBeNull();
+  });
+
+  it('leaves the arrows and select to the focused controls while they are shown', () => {
+    expect(getKeyCommand('left', keyMap, true, true)).toBeNull();
+    expect(getKeyCommand('select', keyMap, true, true)).toBeNull();
+  });
+
+  it('only brings the hidden controls up with the first press of a remote, except for seeking', () => {
+    expect(getKeyCommand('select', keyMap, true, false)).toBe('showControls');
+    expect(getKeyCommand('up', keyMap, true, false)).toBe('showControls');
+    expect(getKeyCommand('left', keyMap, true, false)).toBe('seekBackward');
+    expect(getKeyCommand('right', keyMap, true, false)).toBe('seekForward');
+  });
+
+  it('seeks with the arrows of a keyboard while the controls are shown', () => {
+    expect(getKeyCommand('ArrowLeft', keyMap, false, true)).toBe(
+      'seekBackward',
+    );
+    expect(getKeyCommand('Enter', keyMap, false, true)).toBe('showControls');
+  });
+});
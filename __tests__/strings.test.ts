@@ -0,0 +1,39 @@
+import {defaultStrings, getStrings} from '../strings';
+
+describe('getStrings', () => {
+  it('falls back from a regional locale to its language and to english', () => {
+    expect(getStrings('es-MX').play).toBe('Reproducir');
+    expect(getStrings('fr_CA').play).toBe('Lecture');
+    expect(getStrings('ja')).toEqual(defaultStrings);
+    expect(getStrings()).toEqual(defaultStrings);
+  });
+
+  it('overrides single error messages and keeps the others', () => {
+    const strings = getStrings('de', {errors: {network: 'Offline'}});
+    expect(strings.errors.network).toBe('Offline');
+    expect(strings.errors.notFound).toBe(
+      'Dieses Video ist nicht mehr verfügbar.',
+    );
+    expect(strings.errors.unknown).toBe(
+      'Beim Abspielen dieses Videos ist ein Fehler aufgetreten.',
+    );
+  });
+
+  it('lets the overrides win over the translation', () => {
+    const strings = getStrings('es', {
+      play: 'Play',
+      seekForwardIndicator: seconds => `${seconds} >>`,
+    });
+    expect(strings.play).toBe('Play');
+    expect(strings.pause).toBe('Pausar');
+    expect(strings.seekForwardIndicator(20)).toBe('20 >>');
+    expect(strings.seekBackwardIndicator(10)).toBe('-10 s');
+  });
+
+  it('has the texts of the gesture indicators and the A-B repeat button', () => {
+    expect(defaultStrings.seekForwardIndicator(10)).toBe('+10s');
+    expect(defaultStrings.seekBackwardIndicator(30)).toBe('-30s');
+    expect(defaultStrings.abRepeatStartText).toBe('A–');
+    expect(defaultStrings.abRepeatText).toBe('A–B');
+  });
+});
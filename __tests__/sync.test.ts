@@ -0,0 +1,239 @@
+import {
+  createLoopbackHub,
+  createSyncController,
+  estimateClockOffset,
+  getDriftCorrection,
+  getExpectedPosition,
+  SyncController,
+  SyncMessage,
+  SyncPlaybackState,
+  SyncTransport,
+} from '../sync';
+
+const CORRECTION = {driftThreshold: 0.3, seekThreshold: 2, nudgeRate: 0.05};
+
+//player that takes whatever the controller applies, its position only moves when the test sets it
+const createTarget = (initialState: Partial<SyncPlaybackState> = {}) => {
+  const state: SyncPlaybackState = {
+    isPlaying: false,
+    position: 0,
+    rate: 1,
+    ...initialState,
+  };
+  return {
+    state,
+    getState: () => ({...state}),
+    apply: jest.fn((appliedState: SyncPlaybackState) => {
+      Object.assign(state, appliedState);
+    }),
+    seek: jest.fn((position: number) => {
+      state.position = position;
+    }),
+    nudge: jest.fn(),
+  };
+};
+
+//messages of the loopback hub are sent on a 0 ms timer, the fake timers delay the answers to them by 1 ms
+const deliver = () => jest.advanceTimersByTime(1);
+
+//positions are a few ms off from the time the messages took
+const position = (seconds: number) => expect.closeTo(seconds, 2);
+
+//records every message that goes over the hub
+const listen = (transport: SyncTransport) => {
+  const messages: SyncMessage[] = [];
+  transport.subscribe(message => messages.push(JSON.parse(message)));
+  return messages;
+};
+
+describe('getDriftCorrection', () => {
+  it('leaves a drift up to the drift threshold alone', () => {
+    expect(getDriftCorrection(0, CORRECTION)).toEqual({
+      type: 'nudge',
+      rateFactor: 1,
+    });
+    expect(getDriftCorrection(-0.3, CORRECTION)).toEqual({
+      type: 'nudge',
+      rateFactor: 1,
+    });
+  });
+
+  it('slows down a player that is ahead and speeds up one that is behind', () => {
+    expect(getDriftCorrection(0.5, CORRECTION)).toEqual({
+      type: 'nudge',
+      rateFactor: 0.95,
+    });
+    expect(getDriftCorrection(-2, CORRECTION)).toEqual({
+      type: 'nudge',
+      rateFactor: 1.05,
+    });
+  });
+
+  it('seeks away a drift over the seek threshold', () => {
+    expect(getDriftCorrection(2.1, CORRECTION)).toEqual({type: 'seek'});
+    expect(getDriftCorrection(-5, CORRECTION)).toEqual({type: 'seek'});
+  });
+});
+
+describe('estimateClockOffset', () => {
+  it('takes the offset of the sample with the shortest round trip', () => {
+    expect(
+      estimateClockOffset([
+        {offset: 120, roundTrip: 300},
+        {offset: 40, roundTrip: 20},
+        {offset: 80, roundTrip: 90},
+      ]),
+    ).toBe(40);
+  });
+
+  it('is 0 without samples', () => {
+    expect(estimateClockOffset([])).toBe(0);
+  });
+});
+
+describe('getExpectedPosition', () => {
+  it('moves a playing timeline at its rate', () => {
+    const reference = {isPlaying: true, position: 10, rate: 2, at: 1000};
+    expect(getExpectedPosition(reference, 2500)).toBe(13);
+  });
+
+  it('keeps a paused timeline where it is', () => {
+    const reference = {isPlaying: false, position: 10, rate: 1, at: 1000};
+    expect(getExpectedPosition(reference, 9000)).toBe(10);
+  });
+});
+
+describe('createSyncController', () => {
+  let controllers: SyncController[] = [];
+
+  const connect = (
+    hub: ReturnType<typeof createLoopbackHub>,
+    options: {peerId: string; name?: string},
+  ) => {
+    const controller = createSyncController({
+      transport: hub.connect(),
+      ...options,
+    });
+    controllers = [...controllers, controller];
+    return controller;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    controllers.forEach(controller => controller.close());
+    controllers = [];
+    jest.useRealTimers();
+  });
+
+  it('sends the state of a started player to a device that joins', () => {
+    const hub = createLoopbackHub();
+    const host = createTarget({isPlaying: true, position: 30});
+    connect(hub, {peerId: 'host', name: 'Living room'}).attach(host);
+    deliver();
+    const guest = createTarget();
+    connect(hub, {peerId: 'guest'}).attach(guest);
+    deliver();
+    expect(guest.apply).toHaveBeenCalledWith(
+      {isPlaying: true, position: position(30), rate: 1},
+      'state',
+      'Living room',
+    );
+  });
+
+  it('does not answer a device that joins before the player started', () => {
+    const hub = createLoopbackHub();
+    connect(hub, {peerId: 'host'}).attach(createTarget());
+    deliver();
+    const guest = createTarget();
+    connect(hub, {peerId: 'guest'}).attach(guest);
+    deliver();
+    expect(guest.apply).not.toHaveBeenCalled();
+  });
+
+  it('applies an action of another device without sending it back', () => {
+    const hub = createLoopbackHub();
+    const messages = listen(hub.connect());
+    const host = createTarget({position: 12});
+    const hostController = connect(hub, {peerId: 'host'});
+    hostController.attach(host);
+    const guest = createTarget();
+    connect(hub, {peerId: 'guest'}).attach(guest);
+    deliver();
+    host.state.isPlaying = true;
+    hostController.broadcast('play');
+    deliver();
+    expect(guest.apply).toHaveBeenLastCalledWith(
+      {isPlaying: true, position: position(12), rate: 1},
+      'play',
+      'host',
+    );
+    expect(
+      messages.filter(
+        message => message.type === 'state' && message.from === 'guest',
+      ),
+    ).toEqual([]);
+  });
+
+  it('nudges a player that drifted a little and seeks one that drifted a lot', () => {
+    const hub = createLoopbackHub();
+    const host = createTarget({isPlaying: true});
+    const hostController = connect(hub, {peerId: 'host'});
+    hostController.attach(host);
+    const guest = createTarget();
+    connect(hub, {peerId: 'guest'}).attach(guest);
+    deliver();
+    hostController.broadcast('play');
+    deliver();
+    //the guest is stuck at 0 while the timeline moves on
+    jest.advanceTimersByTime(1000);
+    expect(guest.nudge).toHaveBeenLastCalledWith(1.05);
+    jest.advanceTimersByTime(2000);
+    expect(guest.seek).toHaveBeenLastCalledWith(position(3));
+    expect(guest.nudge).toHaveBeenLastCalledWith(1);
+  });
+
+  it('corrects the time of a message by the clock offset measured from the pongs', () => {
+    const hub = createLoopbackHub();
+    const remote = hub.connect();
+    const messages = listen(remote);
+    const guest = createTarget();
+    const guestController = connect(hub, {peerId: 'guest'});
+    guestController.attach(guest);
+    deliver();
+    const ping = messages.find(message => message.type === 'ping');
+    if (ping?.type !== 'ping') {
+      throw new Error('no ping was sent');
+    }
+    //the remote clock is 2 s ahead and the round trip takes 100 ms
+    jest.advanceTimersByTime(100);
+    const send = (message: SyncMessage) => {
+      remote.send(JSON.stringify(message));
+      deliver();
+    };
+    send({
+      type: 'pong',
+      from: 'remote',
+      to: 'guest',
+      pingSentAt: ping.sentAt,
+      sentAt: ping.sentAt + 2050,
+    });
+    expect(guestController.getClockOffset('remote')).toBeCloseTo(2000, -1);
+    send({
+      type: 'state',
+      from: 'remote',
+      action: 'play',
+      sentAt: Date.now() + 2000,
+      isPlaying: true,
+      position: 10,
+      rate: 1,
+    });
+    expect(guest.apply).toHaveBeenLastCalledWith(
+      {isPlaying: true, position: position(10), rate: 1},
+      'play',
+      'remote',
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import {readFileSync} from 'fs';
+import {join} from 'path';
+import {
+  getThumbnailAt,
+  loadThumbnails,
+  parseThumbnails,
+  resolveUri,
+} from '../thumbnails';
+
+const BASE_URI = 'https://cdn.test/videos/thumbs.vtt?token=abc';
+
+const thumbnailsTrack = readFileSync(
+  join(__dirname, 'fixtures', 'thumbnails.vtt'),
+  'utf8',
+);
+
+describe('resolveUri', () => {
+  it('keeps absolute urls and urls without a base', () => {
+    expect(resolveUri('https://other.test/a.jpg', BASE_URI)).toBe(
+      'https://other.test/a.jpg',
+    );
+    expect(resolveUri('data:image/png;base64,AAAA', BASE_URI)).toBe(
+      'data:image/png;base64,AAAA',
+    );
+    expect(resolveUri('a.jpg')).toBe('a.jpg');
+  });
+
+  it('resolves relative urls against the folder of the base without its query', () => {
+    expect(resolveUri('a.jpg', BASE_URI)).toBe('https://cdn.test/videos/a.jpg');
+    expect(resolveUri('sprites/a.jpg', 'https://cdn.test/thumbs.vtt#t=1')).toBe(
+      'https://cdn.test/sprites/a.jpg',
+    );
+  });
+
+  it('resolves root relative and protocol relative urls', () => {
+    expect(resolveUri('/images/a.jpg', BASE_URI)).toBe(
+      'https://cdn.test/images/a.jpg',
+    );
+    expect(resolveUri('//img.test/a.jpg', BASE_URI)).toBe(
+      'https://img.test/a.jpg',
+    );
+  });
+});
+
+describe('parseThumbnails', () => {
+  const thumbnails = parseThumbnails(thumbnailsTrack, BASE_URI);
+
+  it('skips the cues without an image', () => {
+    expect(thumbnails.map(thumbnail => thumbnail.start)).toEqual([
+      0, 5, 10, 20, 25,
+    ]);
+  });
+
+  it('reads the sprite frames of the xywh fragment', () => {
+    expect(thumbnails[0]).toEqual({
+      start: 0,
+      end: 5,
+      uri: 'https://cdn.test/videos/sprite-1.jpg',
+      crop: {x: 0, y: 0, width: 160, height: 90},
+    });
+    expect(thumbnails[1].crop).toEqual({x: 160, y: 0, width: 160, height: 90});
+    expect(thumbnails[2]).toEqual({
+      start: 10,
+      end: 15,
+      uri: 'https://cdn.test/images/sprite-2.jpg',
+      crop: {x: 0, y: 90, width: 160, height: 90},
+    });
+  });
+
+  it('reads whole images without a crop', () => {
+    expect(thumbnails[3]).toEqual({
+      start: 20,
+      end: 25,
+      uri: 'https://other.test/frame.jpg',
+    });
+    expect(thumbnails[4].uri).toBe('https://img.test/frame-25.jpg');
+  });
+
+  it('keeps relative urls without a base uri', () => {
+    expect(parseThumbnails(thumbnailsTrack)[0].uri).toBe('sprite-1.jpg');
+  });
+});
+
+describe('loadThumbnails', () => {
+  it('resolves inline content against the base uri before the uri', async () => {
+    const thumbnails = await loadThumbnails({
+      content: thumbnailsTrack,
+      uri: 'https://ignored.test/thumbs.vtt',
+      baseUri: 'https://base.test/thumbs/',
+    });
+    expect(thumbnails[0].uri).toBe('https://base.test/thumbs/sprite-1.jpg');
+  });
+
+  it('returns no thumbnails without a uri or content', async () => {
+    expect(await loadThumbnails({})).toEqual([]);
+  });
+});
+
+describe('getThumbnailAt', () => {
+  const thumbnails = parseThumbnails(thumbnailsTrack, BASE_URI);
+
+  it('returns the frame of the cue at the time, the end is exclusive', () => {
+    expect(getThumbnailAt(thumbnails, 0)).toBe(thumbnails[0]);
+    expect(getThumbnailAt(thumbnails, 4.99)).toBe(thumbnails[0]);
+    expect(getThumbnailAt(thumbnails, 5)).toBe(thumbnails[1]);
+    expect(getThumbnailAt(thumbnails, 24)).toBe(thumbnails[3]);
+  });
+
+  it('returns the previous frame between two cues and past the last one', () => {
+    expect(getThumbnailAt(thumbnails, 17)).toBe(thumbnails[2]);
+    expect(getThumbnailAt(thumbnails, 100)).toBe(thumbnails[4]);
+  });
+
+  it('returns null before the first cue or without thumbnails', () => {
+    expect(getThumbnailAt(thumbnails.slice(1), 2)).toBeNull();
+    expect(getThumbnailAt([], 2)).toBeNull();
+  });
+});
@@ -0,0 +1,36 @@
+import {msToTime} from '../time';
+
+describe('msToTime', () => {
+  it('formats 0 as 00:00', () => {
+    expect(msToTime(0)).toBe('00:00');
+  });
+
+  it('rounds to the closest second', () => {
+    expect(msToTime(59.4)).toBe('00:59');
+    expect(msToTime(59.6)).toBe('01:00');
+    expect(msToTime(3599.6)).toBe('01:00:00');
+  });
+
+  it('adds the hours once the time reaches an hour', () => {
+    expect(msToTime(3599)).toBe('59:59');
+    expect(msToTime(3600)).toBe('01:00:00');
+    expect(msToTime(3723)).toBe('01:02:03');
+  });
+
+  it('does not wrap the hours at 24', () => {
+    expect(msToTime(24 * 3600)).toBe('24:00:00');
+    expect(msToTime(25 * 3600 + 61)).toBe('25:01:01');
+    expect(msToTime(100 * 3600)).toBe('100:00:00');
+  });
+
+  it('formats NaN and Infinity as 00:00', () => {
+    expect(msToTime(NaN)).toBe('00:00');
+    expect(msToTime(Infinity)).toBe('00:00');
+    expect(msToTime(-Infinity)).toBe('00:00');
+  });
+
+  it('keeps the sign of negative times that do not round to 0', () => {
+    expect(msToTime(-83)).toBe('-01:23');
+    expect(msToTime(-0.4)).toBe('00:00');
+  });
+});
@@ -0,0 +1,129 @@
+import {readFileSync} from 'fs';
+import {join} from 'path';
+import {createRef} from 'react';
+import {act, renderHook, waitFor} from '@testing-library/react-native';
+import Video, {OnProgressData} from 'react-native-video';
+import useAds from '../useAds';
+import {AdBreak, AdHttp} from '../ads';
+
+const INLINE_URL = 'https://ads.test/inline.xml';
+const INLINE = readFileSync(
+  join(__dirname, 'fixtures', 'vast-inline.xml'),
+  'utf8',
+);
+
+const progress = (currentTime: number) =>
+  ({currentTime, playableDuration: 0, seekableDuration: 30} as OnProgressData);
+
+const renderAds = (breaks: AdBreak[]) => {
+  const http = jest.fn<ReturnType<AdHttp>, Parameters<AdHttp>>(async url =>
+    url === INLINE_URL ? INLINE : '',
+  );
+  const callbacks = {
+    onAdStart: jest.fn(),
+    onAdPlaying: jest.fn(),
+    onBreakEnd: jest.fn(),
+    onPostRollEnd: jest.fn(),
+  };
+  let contentPosition = 0;
+  const hook = renderHook(
+    ({sourceKey = 'video'}: {sourceKey?: string}) =>
+      useAds({
+        config: {breaks, http},
+        playlistIndex: 0,
+        sourceKey,
+        isSourceDeferred: false,
+        duration: 600,
+        playerRef: createRef<Video>(),
+        getContentPosition: () => contentPosition,
+        ...callbacks,
+      }),
+    {initialProps: {}},
+  );
+  const setContentPosition = (position: number) => {
+    contentPosition = position;
+  };
+  return {...hook, ...callbacks, http, setContentPosition};
+};
+
+describe('useAds', () => {
+  it('plays the pre-roll pod and continues the content after it', async () => {
+    const {result, onAdStart, onBreakEnd, http} = renderAds([
+      {offset: 'start', tagUrl: INLINE_URL},
+    ]);
+    await waitFor(() => expect(result.current.ad?.ad.id).toBe('first'));
+    expect(result.current.ad).toMatchObject({position: 1, count: 2, skipIn: 5});
+    expect(onAdStart).toHaveBeenCalledTimes(1);
+    act(() => result.current.videoProps.onProgress(progress(1)));
+    expect(http).toHaveBeenCalledWith(
+      expect.stringMatching(
+        /^https:\/\/track\.test\/first\/impression\?cb=\d+$/,
+      ),
+    );
+    expect(http).toHaveBeenCalledWith('https://track.test/first/start');
+    act(() => result.current.skipAd());
+    expect(result.current.ad?.ad.id).toBe('first');
+    act(() => result.current.videoProps.onProgress(progress(5)));
+    act(() => result.current.skipAd());
+    expect(result.current.ad).toMatchObject({position: 2, count: 2});
+    act(() => result.current.videoProps.onEnd());
+    expect(result.current.ad).toBeNull();
+    expect(onBreakEnd).toHaveBeenCalledWith(0);
+  });
+
+  it('plays a mid-roll that is due and goes back to where it started', async () => {
+    const {result, onBreakEnd, setContentPosition} = renderAds([
+      {offset: 300, tagUrl: INLINE_URL},
+    ]);
+    await waitFor(() => expect(result.current.isAdLoading).toBe(false));
+    act(() => result.current.playDueBreak(299));
+    expect(result.current.isAdLoading).toBe(false);
+    setContentPosition(301);
+    act(() => result.current.playDueBreak(301));
+    await waitFor(() => expect(result.current.ad?.ad.id).toBe('first'));
+    act(() => result.current.videoProps.onError());
+    act(() => result.current.videoProps.onEnd());
+    expect(onBreakEnd).toHaveBeenCalledWith(301);
+    //the break is played once
+    act(() => result.current.playDueBreak(302));
+    expect(result.current.isAdLoading).toBe(false);
+  });
+
+  it('ends the content after the post-roll', async () => {
+    const {result, onPostRollEnd, onBreakEnd} = renderAds([
+      {offset: 'end', tagUrl: INLINE_URL},
+    ]);
+    await waitFor(() => expect(result.current.isAdLoading).toBe(false));
+    let hasPostRoll = false;
+    act(() => {
+      hasPostRoll = result.current.playPostRoll();
+    });
+    expect(hasPostRoll).toBe(true);
+    await waitFor(() => expect(result.current.ad).not.toBeNull());
+    act(() => result.current.videoProps.onEnd());
+    act(() => result.current.videoProps.onEnd());
+    expect(onPostRollEnd).toHaveBeenCalledTimes(1);
+    expect(onBreakEnd).not.toHaveBeenCalled();
+  });
+
+  it('ends the content right away when the post-roll has no ads', async () => {
+    const {result, onPostRollEnd} = renderAds([
+      {offset: 'end', tagUrl: 'https://ads.test/empty.xml'},
+    ]);
+    await waitFor(() => expect(result.current.isAdLoading).toBe(false));
+    act(() => {
+      result.current.playPostRoll();
+    });
+    await waitFor(() => expect(onPostRollEnd).toHaveBeenCalled());
+    expect(result.current.ad).toBeNull();
+  });
+
+  it('drops the ads of the previous source', async () => {
+    const {result, rerender, onAdStart} = renderAds([
+      {offset: 'start', tagUrl: INLINE_URL},
+    ]);
+    rerender({sourceKey: 'other'});
+    await waitFor(() => expect(result.current.ad).not.toBeNull());
+    expect(onAdStart).toHaveBeenCalledTimes(1);
+  });
+});
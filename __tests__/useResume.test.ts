@@ -0,0 +1,90 @@
+import {act, renderHook, waitFor} from '@testing-library/react-native';
+import useResume from '../useResume';
+import {PositionStorage} from '../resumeStorage';
+
+const createStorage = (savedPosition: number | null) => ({
+  get: jest.fn<Promise<number | null>, [string]>(async () => savedPosition),
+  set: jest.fn<Promise<void>, [string, number]>(async () => {}),
+  remove: jest.fn<Promise<void>, [string]>(async () => {}),
+});
+
+const renderResume = (
+  storage: PositionStorage,
+  props: {duration?: number; isPlaying?: boolean; prompt?: boolean} = {},
+) => {
+  const seek = jest.fn();
+  const setPlaying = jest.fn();
+  let position = 0;
+  const hook = renderHook(
+    ({duration = 600, isPlaying = false, prompt = false}) =>
+      useResume({
+        resumeKey: 'video',
+        storage,
+        prompt,
+        duration,
+        isLive: false,
+        isPlaying,
+        getPosition: () => position,
+        seek,
+        setPlaying,
+      }),
+    {initialProps: props},
+  );
+  const setPosition = (value: number) => {
+    position = value;
+  };
+  return {...hook, seek, setPlaying, setPosition};
+};
+
+describe('useResume', () => {
+  it('seeks to the saved position once the duration is known', async () => {
+    const storage = createStorage(120);
+    const {rerender, seek} = renderResume(storage, {duration: 0});
+    await waitFor(() => expect(storage.get).toHaveBeenCalledWith('video'));
+    expect(seek).not.toHaveBeenCalled();
+    rerender({duration: 600});
+    await waitFor(() => expect(seek).toHaveBeenCalledWith(120));
+    rerender({duration: 601});
+    expect(seek).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops the position of a video that was watched to the end', async () => {
+    const storage = createStorage(590);
+    const {seek} = renderResume(storage);
+    await waitFor(() => expect(storage.remove).toHaveBeenCalledWith('video'));
+    expect(seek).not.toHaveBeenCalled();
+  });
+
+  it('pauses on the prompt and continues from the answer', async () => {
+    const storage = createStorage(120);
+    const {result, seek, setPlaying} = renderResume(storage, {prompt: true});
+    await waitFor(() => expect(result.current.promptPosition).toBe(120));
+    expect(setPlaying).toHaveBeenLastCalledWith(false);
+    act(() => result.current.answerPrompt(true));
+    expect(seek).toHaveBeenCalledWith(120);
+    expect(setPlaying).toHaveBeenLastCalledWith(true);
+    expect(result.current.promptPosition).toBeNull();
+  });
+
+  it('forgets the position when the user starts over', async () => {
+    const storage = createStorage(120);
+    const {result, seek} = renderResume(storage, {prompt: true});
+    await waitFor(() => expect(result.current.promptPosition).toBe(120));
+    act(() => result.current.answerPrompt(false));
+    expect(seek).not.toHaveBeenCalled();
+    expect(storage.remove).toHaveBeenCalledWith('video');
+  });
+
+  it('saves the position while playing and when it is unmounted', async () => {
+    jest.useFakeTimers();
+    const storage = createStorage(null);
+    const {setPosition, unmount} = renderResume(storage, {isPlaying: true});
+    setPosition(42);
+    act(() => jest.advanceTimersByTime(5000));
+    expect(storage.set).toHaveBeenLastCalledWith('video', 42);
+    setPosition(47);
+    unmount();
+    expect(storage.set).toHaveBeenLastCalledWith('video', 47);
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,102 @@
+import {act, renderHook} from '@testing-library/react-native';
+import useSourceFallback from '../useSourceFallback';
+import {VideoSource} from '../sources';
+
+const HLS = {uri: 'https://cdn.test/video.m3u8'};
+const MP4 = {uri: 'https://cdn.test/video.mp4'};
+
+const renderFallback = (
+  props: {
+    candidates?: (VideoSource | number)[];
+    playlistIndex?: number;
+    isWaiting?: boolean;
+  } = {},
+) => {
+  const onFallBack = jest.fn();
+  const onSourceReady = jest.fn();
+  const hook = renderHook(
+    ({candidates = [HLS, MP4], playlistIndex = 0, isWaiting = false}) =>
+      useSourceFallback({
+        candidates,
+        playlistIndex,
+        isWaiting,
+        startupTimeout: 5000,
+        onFallBack,
+        onSourceReady,
+      }),
+    {initialProps: props},
+  );
+  return {...hook, onFallBack, onSourceReady};
+};
+
+describe('useSourceFallback', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('falls back to the next candidate until there is none left', () => {
+    const {result, onFallBack} = renderFallback();
+    expect(result.current.source).toBe(HLS);
+    let hasFallenBack = false;
+    act(() => {
+      hasFallenBack = result.current.fallBack();
+    });
+    expect(hasFallenBack).toBe(true);
+    expect(onFallBack).toHaveBeenCalledTimes(1);
+    expect(result.current.sourceIndex).toBe(1);
+    expect(result.current.source).toBe(MP4);
+    act(() => {
+      hasFallenBack = result.current.fallBack();
+    });
+    expect(hasFallenBack).toBe(false);
+    expect(onFallBack).toHaveBeenCalledTimes(1);
+  });
+
+  it('goes back to the first candidate on reset and for another source', () => {
+    const {result, rerender} = renderFallback();
+    act(() => {
+      result.current.fallBack();
+    });
+    act(() => result.current.reset());
+    expect(result.current.sourceIndex).toBe(0);
+    act(() => {
+      result.current.fallBack();
+    });
+    rerender({playlistIndex: 1});
+    expect(result.current.sourceIndex).toBe(0);
+  });
+
+  it('falls back when the first frame does not come within the startup timeout', () => {
+    const {result, rerender} = renderFallback();
+    act(() => jest.advanceTimersByTime(10000));
+    expect(result.current.sourceIndex).toBe(0);
+    rerender({isWaiting: true});
+    act(() => jest.advanceTimersByTime(4999));
+    expect(result.current.sourceIndex).toBe(0);
+    act(() => jest.advanceTimersByTime(1));
+    expect(result.current.sourceIndex).toBe(1);
+  });
+
+  it('stops the startup timeout once the candidate is ready', () => {
+    const {result, rerender} = renderFallback({isWaiting: true});
+    act(() => result.current.onReady());
+    rerender({isWaiting: true});
+    act(() => jest.advanceTimersByTime(10000));
+    expect(result.current.sourceIndex).toBe(0);
+  });
+
+  it('reports every candidate once when it gets ready', () => {
+    const {result, rerender, onSourceReady} = renderFallback();
+    act(() => result.current.onReady());
+    act(() => result.current.onReady());
+    expect(onSourceReady).toHaveBeenCalledTimes(1);
+    expect(onSourceReady).toHaveBeenLastCalledWith(HLS, 0);
+    act(() => {
+      result.current.fallBack();
+    });
+    act(() => result.current.onReady());
+    expect(onSourceReady).toHaveBeenLastCalledWith(MP4, 1);
+    rerender({playlistIndex: 1});
+    act(() => result.current.onReady());
+    expect(onSourceReady).toHaveBeenCalledTimes(3);
+  });
+});
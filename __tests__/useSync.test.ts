@@ -0,0 +1,127 @@
+import {act, renderHook} from '@testing-library/react-native';
+import useSync from '../useSync';
+import {SyncController, SyncTarget} from '../sync';
+import {defaultStrings} from '../strings';
+
+//controller that hands out the attached target instead of talking to other devices
+const createController = () => {
+  const controller = {
+    target: null as SyncTarget | null,
+    peerId: 'local',
+    attach: jest.fn((target: SyncTarget) => {
+      controller.target = target;
+      return () => {
+        controller.target = null;
+      };
+    }),
+    broadcast: jest.fn(),
+    getClockOffset: () => 0,
+    close: jest.fn(),
+  };
+  return controller;
+};
+
+const renderSync = (sync: SyncController) => {
+  const player = {isPlaying: false, rate: 1, position: 10};
+  const setPlaying = jest.fn((isPlaying: boolean) => {
+    player.isPlaying = isPlaying;
+  });
+  const setRate = jest.fn((rate: number) => {
+    player.rate = rate;
+  });
+  const seek = jest.fn();
+  const hook = renderHook(() =>
+    useSync({
+      sync,
+      ...player,
+      labels: defaultStrings,
+      setPlaying,
+      setRate,
+      seek,
+    }),
+  );
+  return {...hook, player, setPlaying, setRate, seek};
+};
+
+describe('useSync', () => {
+  it('broadcasts the play, pause and rate changes of the user', () => {
+    const sync = createController();
+    const {player, rerender} = renderSync(sync);
+    player.isPlaying = true;
+    rerender({});
+    player.rate = 2;
+    rerender({});
+    player.isPlaying = false;
+    rerender({});
+    expect(sync.broadcast.mock.calls).toEqual([['play'], ['rate'], ['pause']]);
+  });
+
+  it('applies the actions of the other devices without sending them back', () => {
+    const sync = createController();
+    const {result, rerender, setPlaying, setRate, seek} = renderSync(sync);
+    act(() =>
+      sync.target!.apply(
+        {isPlaying: true, rate: 1.5, position: 10.5},
+        'play',
+        'Ana',
+      ),
+    );
+    rerender({});
+    expect(setPlaying).toHaveBeenCalledWith(true);
+    expect(setRate).toHaveBeenCalledWith(1.5);
+    //within the tolerance the controller nudges instead of seeking
+    expect(seek).not.toHaveBeenCalled();
+    expect(sync.broadcast).not.toHaveBeenCalled();
+    expect(result.current.pausedBy).toBeNull();
+  });
+
+  it('seeks for a remote seek and for positions that are too far off', () => {
+    const sync = createController();
+    const {seek} = renderSync(sync);
+    act(() =>
+      sync.target!.apply(
+        {isPlaying: false, rate: 1, position: 10.2},
+        'seek',
+        'Ana',
+      ),
+    );
+    act(() =>
+      sync.target!.apply(
+        {isPlaying: false, rate: 1, position: 30},
+        'state',
+        'Ana',
+      ),
+    );
+    expect(seek.mock.calls).toEqual([[10.2], [30]]);
+  });
+
+  it('tells who paused the playback until it plays again', () => {
+    const sync = createController();
+    const {result, player, rerender} = renderSync(sync);
+    player.isPlaying = true;
+    rerender({});
+    act(() =>
+      sync.target!.apply(
+        {isPlaying: false, rate: 1, position: 10},
+        'pause',
+        'Ana',
+      ),
+    );
+    rerender({});
+    expect(result.current.pausedBy).toBe('Ana');
+    expect(sync.broadcast).toHaveBeenCalledTimes(1);
+    player.isPlaying = true;
+    rerender({});
+    expect(result.current.pausedBy).toBeNull();
+    expect(sync.broadcast).toHaveBeenLastCalledWith('play');
+  });
+
+  it('nudges the rate until it is detached', () => {
+    const sync = createController();
+    const {result, unmount} = renderSync(sync);
+    act(() => sync.target!.nudge(1.05));
+    expect(result.current.rateFactor).toBe(1.05);
+    unmount();
+    expect(sync.target).toBeNull();
+  });
+});
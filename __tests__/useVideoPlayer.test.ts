@@ -0,0 +1,298 @@
+import {readFileSync} from 'fs';
+import {join} from 'path';
+import {MutableRefObject, useState} from 'react';
+import {act, renderHook, waitFor} from '@testing-library/react-native';
+import Video, {LoadError, OnLoadData, OnProgressData} from 'react-native-video';
+import useVideoPlayer, {UseVideoPlayerOptions} from '../useVideoPlayer';
+import {createMemoryStorage} from '../resumeStorage';
+import {SyncController} from '../sync';
+import {AdHttp} from '../ads';
+
+const HLS = {uri: 'https://cdn.test/video.m3u8'};
+const MP4 = {uri: 'https://cdn.test/video.mp4'};
+const NETWORK_ERROR: LoadError = {
+  error: {'': '', errorString: 'Unable to connect'},
+};
+
+const AD_TAG_URL = 'https://ads.test/inline.xml';
+const AD_TAG = readFileSync(
+  join(__dirname, 'fixtures', 'vast-inline.xml'),
+  'utf8',
+);
+
+const loadData = (duration: number) =>
+  ({duration, naturalSize: {width: 1280, height: 720}} as OnLoadData);
+
+const progress = (currentTime: number, seekableDuration = 60) =>
+  ({currentTime, playableDuration: 0, seekableDuration} as OnProgressData);
+
+//the Video is not mounted, its seeks land on a mock
+const renderPlayer = async (options: UseVideoPlayerOptions) => {
+  const seek = jest.fn();
+  const hook = renderHook(() => useVideoPlayer(options));
+  //lets the screen reader check of the mount settle
+  await act(async () => {});
+  (hook.result.current.videoProps.ref as MutableRefObject<unknown>).current = {
+    seek,
+  } as unknown as Video;
+  return {...hook, seek};
+};
+
+describe('useVideoPlayer', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('falls back to the next source before it shows the error', async () => {
+    const onError = jest.fn();
+    const onSourceError = jest.fn();
+    const {result} = await renderPlayer({
+      src: [HLS, MP4],
+      onError,
+      onSourceError,
+    });
+    act(() => result.current.videoProps.onError(NETWORK_ERROR));
+    expect(result.current.sourceIndex).toBe(1);
+    expect(result.current.videoProps.source).toBe(MP4);
+    expect(result.current.hasError).toBe(false);
+    expect(onSourceError).toHaveBeenLastCalledWith(NETWORK_ERROR, HLS, 0, true);
+    expect(onError).not.toHaveBeenCalled();
+    act(() => result.current.videoProps.onError(NETWORK_ERROR));
+    expect(result.current.hasError).toBe(true);
+    expect(result.current.error?.type).toBe('network');
+    expect(onSourceError).toHaveBeenLastCalledWith(
+      NETWORK_ERROR,
+      MP4,
+      1,
+      false,
+    );
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports the changes of the muted option once', async () => {
+    const onMuteChange = jest.fn();
+    let isMuteTaken = true;
+    //a screen that controls the mute and takes the changes of the player while isMuteTaken
+    const {result} = renderHook(() => {
+      const [muted, setMuted] = useState(false);
+      const player = useVideoPlayer({
+        src: MP4,
+        muted,
+        onMuteChange: value => {
+          onMuteChange(value);
+          if (isMuteTaken) setMuted(value);
+        },
+      });
+      return {player, setMuted};
+    });
+    await act(async () => {});
+    act(() => result.current.setMuted(true));
+    expect(onMuteChange).toHaveBeenLastCalledWith(true);
+    act(() => result.current.player.toggleMute());
+    expect(result.current.player.isMute).toBe(false);
+    expect(onMuteChange).toHaveBeenCalledTimes(2);
+    isMuteTaken = false;
+    act(() => result.current.player.toggleMute());
+    expect(result.current.player.isMute).toBe(false);
+    act(() => result.current.setMuted(true));
+    expect(onMuteChange.mock.calls).toEqual([[true], [false], [true], [true]]);
+  });
+
+  it('retries with a growing delay until the attempts run out', async () => {
+    const {result} = await renderPlayer({
+      src: MP4,
+      retryConfig: {maxAttempts: 2},
+    });
+    act(() => result.current.videoProps.onError(NETWORK_ERROR));
+    expect(result.current).toMatchObject({
+      hasError: true,
+      isAutoRetrying: true,
+      retryAttempt: 1,
+    });
+    act(() => jest.advanceTimersByTime(1000));
+    expect(result.current.hasError).toBe(false);
+    act(() => result.current.videoProps.onError(NETWORK_ERROR));
+    act(() => jest.advanceTimersByTime(1999));
+    expect(result.current.hasError).toBe(true);
+    act(() => jest.advanceTimersByTime(1));
+    expect(result.current.hasError).toBe(false);
+    act(() => result.current.videoProps.onError(NETWORK_ERROR));
+    expect(result.current.isAutoRetrying).toBe(false);
+    act(() => jest.advanceTimersByTime(10000));
+    expect(result.current.hasError).toBe(true);
+  });
+
+  it('continues from the position of the error after a retry', async () => {
+    const {result, seek} = await renderPlayer({src: MP4});
+    act(() => result.current.videoProps.onLoad(loadData(60)));
+    act(() => result.current.videoProps.onProgress(progress(42)));
+    act(() => result.current.videoProps.onError(NETWORK_ERROR));
+    act(() => result.current.retry());
+    act(() => result.current.videoProps.onLoad(loadData(60)));
+    expect(seek).toHaveBeenLastCalledWith(42);
+  });
+
+  it('continues from the saved position', async () => {
+    const resumeStorage = createMemoryStorage();
+    await resumeStorage.set('video', 30);
+    const {result, seek} = await renderPlayer({
+      src: MP4,
+      resumeKey: 'video',
+      resumeStorage,
+    });
+    act(() => result.current.videoProps.onLoad(loadData(60)));
+    expect(seek).toHaveBeenLastCalledWith(30);
+    expect(result.current.currentTime).toBe(30);
+  });
+
+  it('ends a looping clip once per pass', async () => {
+    const onEnd = jest.fn();
+    const {result, seek} = await renderPlayer({
+      src: MP4,
+      startTime: 10,
+      endTime: 20,
+      loop: true,
+      onEnd,
+    });
+    act(() => result.current.videoProps.onLoad(loadData(60)));
+    expect(seek).toHaveBeenLastCalledWith(10);
+    act(() => result.current.videoProps.onProgress(progress(20)));
+    act(() => result.current.videoProps.onProgress(progress(20.2)));
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(seek).toHaveBeenLastCalledWith(10);
+    act(() =>
+      result.current.videoProps.onSeek({currentTime: 10, seekTime: 10}),
+    );
+    act(() => result.current.videoProps.onProgress(progress(10.2)));
+    act(() => result.current.videoProps.onProgress(progress(20)));
+    expect(onEnd).toHaveBeenCalledTimes(2);
+  });
+
+  it('loops between the A and B points', async () => {
+    const {result, seek} = await renderPlayer({src: MP4});
+    act(() => result.current.videoProps.onLoad(loadData(60)));
+    act(() => result.current.setABRepeat(40, 30));
+    expect(result.current.abRepeat).toEqual({a: 30, b: 40});
+    act(() => result.current.videoProps.onProgress(progress(40)));
+    expect(seek).toHaveBeenLastCalledWith(30);
+  });
+
+  it('keeps the position when the modal full screen mounts the video again', async () => {
+    const onFullScreenChange = jest.fn();
+    const {result, seek} = await renderPlayer({
+      src: MP4,
+      fullScreenMode: 'modal',
+      onFullScreenChange,
+    });
+    act(() => result.current.videoProps.onLoad(loadData(60)));
+    act(() => result.current.videoProps.onProgress(progress(42)));
+    act(() => result.current.toggleFullScreen());
+    expect(result.current.isFullScreen).toBe(true);
+    expect(result.current.isLoading).toBe(true);
+    expect(onFullScreenChange).toHaveBeenLastCalledWith(true);
+    act(() => result.current.videoProps.onLoad(loadData(60)));
+    expect(seek).toHaveBeenLastCalledWith(42);
+    act(() => result.current.videoProps.onProgress(progress(43)));
+    act(() => result.current.toggleFullScreen());
+    expect(result.current.isFullScreen).toBe(false);
+    act(() => result.current.videoProps.onLoad(loadData(60)));
+    expect(seek).toHaveBeenLastCalledWith(43);
+  });
+
+  it('reports a scrub with the position it was clamped to', async () => {
+    const onSeek = jest.fn();
+    const broadcast = jest.fn();
+    const sync = {
+      peerId: 'local',
+      attach: () => () => {},
+      broadcast,
+      getClockOffset: () => 0,
+      close: () => {},
+    } as SyncController;
+    const {result, seek} = await renderPlayer({
+      src: MP4,
+      endTime: 50,
+      onSeek,
+      sync,
+    });
+    act(() => result.current.videoProps.onLoad(loadData(60)));
+    act(() => result.current.videoProps.onProgress(progress(10)));
+    act(() => result.current.beginSeek());
+    act(() => result.current.endSeek(55));
+    expect(seek).toHaveBeenLastCalledWith(50);
+    expect(onSeek).toHaveBeenCalledWith(10, 50);
+    expect(broadcast).toHaveBeenCalledWith('seek', {position: 50});
+  });
+
+  it('measures the startup of a lazy player from the mount of the video', async () => {
+    const reportEvent = jest.fn();
+    const {result} = await renderPlayer({
+      src: MP4,
+      lazy: true,
+      analyticsReporter: {reportEvent},
+    });
+    act(() => jest.advanceTimersByTime(5000));
+    expect(reportEvent).not.toHaveBeenCalled();
+    expect(result.current.sessionId).toBeNull();
+    act(() => result.current.togglePlay());
+    expect(reportEvent).toHaveBeenLastCalledWith(
+      expect.objectContaining({type: 'sessionStart'}),
+    );
+    act(() => jest.advanceTimersByTime(300));
+    act(() => result.current.videoProps.onReadyForDisplay());
+    expect(reportEvent).toHaveBeenLastCalledWith(
+      expect.objectContaining({type: 'startup', startupTime: 300}),
+    );
+  });
+
+  it('measures the startup up to the first frame of the content, not of the pre-roll', async () => {
+    const reportEvent = jest.fn();
+    const http: AdHttp = async url => (url === AD_TAG_URL ? AD_TAG : '');
+    const {result} = await renderPlayer({
+      src: MP4,
+      ads: {breaks: [{offset: 'start', tagUrl: AD_TAG_URL}], http},
+      analyticsReporter: {reportEvent},
+    });
+    await waitFor(() => expect(result.current.ad).not.toBeNull());
+    act(() => result.current.videoProps.onReadyForDisplay());
+    act(() => result.current.videoProps.onEnd());
+    act(() => result.current.videoProps.onReadyForDisplay());
+    act(() => result.current.videoProps.onEnd());
+    expect(result.current.ad).toBeNull();
+    expect(reportEvent).not.toHaveBeenCalledWith(
+      expect.objectContaining({type: 'startup'}),
+    );
+    act(() => result.current.videoProps.onReadyForDisplay());
+    expect(reportEvent).toHaveBeenLastCalledWith(
+      expect.objectContaining({type: 'startup'}),
+    );
+  });
+
+  it('keeps the controls while one of them has the focus', async () => {
+    const {result} = await renderPlayer({src: MP4, controls: true});
+    act(() => result.current.videoProps.onReadyForDisplay());
+    expect(result.current.showControls).toBe(true);
+    act(() => result.current.controlsFocusHandlers.onFocus());
+    act(() => jest.advanceTimersByTime(5000));
+    expect(result.current.showControls).toBe(true);
+    act(() => result.current.controlsFocusHandlers.onBlur());
+    act(() => jest.advanceTimersByTime(2999));
+    expect(result.current.showControls).toBe(true);
+    act(() => jest.advanceTimersByTime(1));
+    expect(result.current.showControls).toBe(false);
+  });
+
+  it('does not seek or report a scrub on a live stream without dvr', async () => {
+    const onSeek = jest.fn();
+    const {result, seek} = await renderPlayer({
+      src: MP4,
+      liveMode: 'live',
+      onSeek,
+    });
+    expect(result.current.canSeek).toBe(false);
+    act(() => result.current.beginSeek());
+    act(() => result.current.endSeek(10));
+    act(() => result.current.seekBy(10));
+    expect(seek).not.toHaveBeenCalled();
+    expect(onSeek).not.toHaveBeenCalled();
+  });
+});
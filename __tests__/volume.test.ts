@@ -0,0 +1,80 @@
+import {getInitialVolumeState, volumeReducer, VolumeState} from '../volume';
+
+const state = (overrides: Partial<VolumeState> = {}): VolumeState => ({
+  volume: 0.6,
+  isMute: false,
+  lastVolume: 0.6,
+  ...overrides,
+});
+
+describe('getInitialVolumeState', () => {
+  it('clamps the volume and unmutes a volume of 0 to full', () => {
+    expect(getInitialVolumeState(1.5)).toEqual({
+      volume: 1,
+      isMute: false,
+      lastVolume: 1,
+    });
+    expect(getInitialVolumeState(0, true)).toEqual({
+      volume: 0,
+      isMute: true,
+      lastVolume: 1,
+    });
+  });
+});
+
+describe('volumeReducer', () => {
+  it('keeps the volume while muted and plays at it again once unmuted', () => {
+    const muted = volumeReducer(state(), {type: 'toggleMute'});
+    expect(muted).toEqual(state({isMute: true}));
+    expect(volumeReducer(muted, {type: 'toggleMute'})).toEqual(state());
+  });
+
+  it('mutes at 0 and unmutes to the volume before it', () => {
+    const silent = volumeReducer(state(), {type: 'setVolume', volume: 0});
+    expect(silent).toEqual({volume: 0, isMute: true, lastVolume: 0.6});
+    expect(volumeReducer(silent, {type: 'setMuted', muted: false})).toEqual(
+      state(),
+    );
+  });
+
+  it('unmutes when the volume is dragged up from 0', () => {
+    const silent = state({volume: 0, isMute: true});
+    expect(volumeReducer(silent, {type: 'setVolume', volume: 0.2})).toEqual({
+      volume: 0.2,
+      isMute: false,
+      lastVolume: 0.2,
+    });
+  });
+
+  it('clamps the volume between 0 and 1', () => {
+    expect(volumeReducer(state(), {type: 'setVolume', volume: 1.4})).toEqual({
+      volume: 1,
+      isMute: false,
+      lastVolume: 1,
+    });
+    expect(volumeReducer(state(), {type: 'setVolume', volume: -1})).toEqual(
+      state({volume: 0, isMute: true}),
+    );
+    expect(
+      volumeReducer(state(), {type: 'systemVolume', volume: 2}).volume,
+    ).toBe(1);
+  });
+
+  it('follows the system volume without touching the mute', () => {
+    const muted = state({isMute: true});
+    expect(volumeReducer(muted, {type: 'systemVolume', volume: 0.3})).toEqual({
+      volume: 0.3,
+      isMute: true,
+      lastVolume: 0.3,
+    });
+  });
+
+  it('unmutes to the level before the system volume went down to 0', () => {
+    const silent = volumeReducer(state({isMute: true}), {
+      type: 'systemVolume',
+      volume: 0,
+    });
+    expect(silent).toEqual({volume: 0, isMute: true, lastVolume: 0.6});
+    expect(volumeReducer(silent, {type: 'toggleMute'})).toEqual(state());
+  });
+});
@@ -0,0 +1,74 @@
+import {AccessibilityInfo} from 'react-native';
+
+/**
+ * @description labels read by TalkBack and VoiceOver, pass the ones to translate through the
+ * accessibilityLabels prop, seekBarValue gets the formatted position and duration of the video and behindLive
+ * the formatted time behind the live edge
+ */
+export type VideoPlayerLabels = {
+  play: string;
+  pause: string;
+  rewind: string;
+  forward: string;
+  next: string;
+  previous: string;
+  nextChapter: string;
+  previousChapter: string;
+  mute: string;
+  unmute: string;
+  enterFullScreen: string;
+  exitFullScreen: string;
+  captions: string;
+  settings: string;
+  retry: string;
+  seekBar: string;
+  seekBarValue: (position: string, duration: string) => string;
+  buffering: string;
+  ended: string;
+  live: string;
+  goLive: string;
+  behindLive: (time: string) => string;
+  ad: (remaining: string, position: number, count: number) => string;
+  skipAd: string;
+  skipAdIn: (seconds: number) => string;
+  abRepeat: string;
+};
+
+export const defaultLabels: VideoPlayerLabels = {
+  play: 'Play',
+  pause: 'Pause',
+  rewind: 'Rewind 10 seconds',
+  forward: 'Forward 10 seconds',
+  next: 'Next video',
+  previous: 'Previous video',
+  nextChapter: 'Next chapter',
+  previousChapter: 'Previous chapter',
+  mute: 'Mute',
+  unmute: 'Unmute',
+  enterFullScreen: 'Enter full screen',
+  exitFullScreen: 'Exit full screen',
+  captions: 'Captions',
+  settings: 'Settings',
+  retry: 'Retry',
+  seekBar: 'Seek bar',
+  seekBarValue: (position, duration) => `${position} of ${duration}`,
+  buffering: 'Buffering',
+  ended: 'Video ended',
+  live: 'Live',
+  goLive: 'Go live',
+  behindLive: time => `${time} behind live`,
+  ad: (remaining, position, count) =>
+    count > 1
+      ? `Ad ${position} of ${count} \u00b7 ${remaining}`
+      : `Ad \u00b7 ${remaining}`,
+  skipAd: 'Skip ad',
+  skipAdIn: seconds => `Skip in ${seconds}`,
+  abRepeat: 'A-B repeat',
+};
+
+//seconds the seek bar moves on every swipe up or down of the screen reader
+export const ACCESSIBILITY_SEEK_STEP = 10;
+
+export const announce = (message: string) => {
+  AccessibilityInfo.announceForAccessibility(message);
+};
@@ -0,0 +1,462 @@
+import {getAll, getChild, getChildren, parseXml, XmlElement} from './xml';
+
+/**
+ * @description fetches a url and resolves with the body, used for the ad tags and the tracking pixels.
+ * Pass your own to add headers, cookies or logging
+ */
+export type AdHttp = (url: string) => Promise<string>;
+
+export type AdTrackingEvent =
+  | 'impression'
+  | 'start'
+  | 'firstQuartile'
+  | 'midpoint'
+  | 'thirdQuartile'
+  | 'complete'
+  | 'skip'
+  | 'error';
+
+export type VastMediaFile = {
+  uri: string;
+  type: string;
+  width: number;
+  height: number;
+  bitrate: number;
+};
+
+/**
+ * @description linear ad of a VAST response, the tracking urls of the wrappers it came through are
+ * included. Duration and skipOffset are in seconds, skipOffset is null for ads that can not be skipped
+ */
+export type VastAd = {
+  id?: string;
+  title?: string;
+  duration: number;
+  skipOffset: number | null;
+  mediaFile: VastMediaFile;
+  clickThrough?: string;
+  tracking: Partial<Record<AdTrackingEvent, string[]>>;
+};
+
+/**
+ * @description when a break plays, start is a pre-roll, end a post-roll, a number is the content time in seconds
+ * and a percentage is relative to the content duration
+ */
+export type AdBreakOffset = 'start' | 'end' | number | `${number}%`;
+
+/**
+ * @description ad break with either the url of a VAST tag or the VAST xml itself
+ */
+export type AdBreak = {
+  offset: AdBreakOffset;
+  tagUrl?: string;
+  vast?: string;
+};
+
+/**
+ * @description ads of the video, either a VMAP schedule as url or xml, or a list of ad breaks
+ * @param {function} http - fetches the tags and fires the tracking pixels, defaults to fetch
+ * @param {number} maxWrapperDepth - wrappers followed before an ad is given up, default is 5
+ */
+export type AdsConfig = {
+  vmapUrl?: string;
+  vmap?: string;
+  breaks?: AdBreak[];
+  http?: AdHttp;
+  maxWrapperDepth?: number;
+};
+
+/**
+ * @description ad that plays in place of the content, position is the 1 based position in the ad pod.
+ * skipIn is the number of seconds until the ad can be skipped, 0 once it can and null for ads that can not be skipped
+ */
+export type AdPlayback = {
+  ad: VastAd;
+  position: number;
+  count: number;
+  currentTime: number;
+  duration: number;
+  skipIn: number | null;
+};
+
+export type ScheduledAdBreak = AdBreak & {
+  isPlayed: boolean;
+};
+
+const DEFAULT_MAX_WRAPPER_DEPTH = 5;
+//a mid size rendition is plenty for an ad and starts quickly
+const PREFERRED_MEDIA_WIDTH = 1280;
+const PLAYABLE_MEDIA_TYPES = [
+  'video/mp4',
+  'video/3gpp',
+  'application/x-mpegurl',
+  'application/vnd.apple.mpegurl',
+];
+const QUARTILES: [number, AdTrackingEvent][] = [
+  [0.25, 'firstQuartile'],
+  [0.5, 'midpoint'],
+  [0.75, 'thirdQuartile'],
+];
+
+//VAST error codes sent with the [ERRORCODE] macro
+export const VAST_WRAPPER_LIMIT_ERROR = 302;
+export const VAST_NO_ADS_ERROR = 303;
+export const VAST_MEDIA_ERROR = 405;
+const VAST_UNDEFINED_ERROR = 900;
+
+export const defaultAdHttp: AdHttp = async url => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url}`);
+  }
+  return response.text();
+};
+
+/**
+ * @description seconds of a VAST time, hh:mm:ss with optional milliseconds. Percentages need the duration
+ * they are relative to, null when the value can not be read
+ */
+export const parseVastTime = (
+  value: string | undefined,
+  duration?: number,
+): number | null => {
+  const text = value?.trim() ?? '';
+  if (text.endsWith('%')) {
+    const percentage = parseFloat(text);
+    return duration !== undefined && !isNaN(percentage)
+      ? (duration * percentage) / 100
+      : null;
+  }
+  const match = /^(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/.exec(text);
+  if (!match) {
+    return null;
+  }
+  return (
+    parseInt(match[1], 10) * 3600 +
+    parseInt(match[2], 10) * 60 +
+    parseFloat(match[3])
+  );
+};
+
+/**
+ * @description ad breaks of a VMAP document, breaks with a position offset or without a source are left out
+ */
+export const parseVmap = (source: string): AdBreak[] =>
+  getChildren(parseXml(source), 'AdBreak').reduce<AdBreak[]>(
+    (breaks, adBreak) => {
+      const timeOffset = adBreak.attributes.timeOffset?.trim();
+      const adSource = getChild(adBreak, 'AdSource');
+      const tagUrl = getChild(adSource, 'AdTagURI')?.text;
+      const vastData = getChild(getChild(adSource, 'VASTAdData'), 'VAST');
+      let offset: AdBreakOffset | null = null;
+      if (timeOffset === 'start' || timeOffset === 'end') {
+        offset = timeOffset;
+      } else if (timeOffset?.endsWith('%')) {
+        offset = timeOffset as `${number}%`;
+      } else {
+        offset = parseVastTime(timeOffset);
+      }
+      if (offset === null || (!tagUrl && !vastData)) {
+        return breaks;
+      }
+      return [
+        ...breaks,
+        {offset, tagUrl, vast: vastData ? stringifyXml(vastData) : undefined},
+      ];
+    },
+    [],
+  );
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+
+//inline VAST of a VMAP is handed on as xml like every other VAST response
+const stringifyXml = (element: XmlElement): string => {
+  const attributes = Object.keys(element.attributes)
+    .map(name => ` ${name}="${escapeXml(element.attributes[name])}"`)
+    .join('');
+  return `<${element.name}${attributes}>${escapeXml(
+    element.text,
+  )}${element.children.map(stringifyXml).join('')}</${element.name}>`;
+};
+
+/**
+ * @description ad breaks of the config, loads the VMAP when there is one
+ */
+export const loadAdSchedule = async (
+  config: AdsConfig,
+): Promise<ScheduledAdBreak[]> => {
+  let breaks = config.breaks ?? [];
+  if (config.vmapUrl) {
+    breaks = parseVmap(await (config.http ?? defaultAdHttp)(config.vmapUrl));
+  } else if (config.vmap) {
+    breaks = parseVmap(config.vmap);
+  }
+  return breaks.map(adBreak => ({...adBreak, isPlayed: false}));
+};
+
+/**
+ * @description content time of the break, Infinity for post-rolls and null for a percentage while the
+ * content duration is not known yet
+ */
+export const getAdBreakTime = (
+  offset: AdBreakOffset,
+  duration: number,
+): number | null => {
+  if (offset === 'start') {
+    return 0;
+  }
+  if (offset === 'end') {
+    return Infinity;
+  }
+  if (typeof offset === 'number') {
+    return offset;
+  }
+  return duration > 0 ? (duration * parseFloat(offset)) / 100 : null;
+};
+
+export const getAdBreakIndex = (
+  breaks: ScheduledAdBreak[],
+  offset: 'start' | 'end',
+) =>
+  breaks.findIndex(adBreak => adBreak.offset === offset && !adBreak.isPlayed);
+
+/**
+ * @description mid-roll that is due at the current time, the latest one when a seek jumped over several of them
+ */
+export const getDueAdBreakIndex = (
+  breaks: ScheduledAdBreak[],
+  currentTime: number,
+  duration: number,
+) => {
+  let dueIndex = -1;
+  let dueTime = 0;
+  breaks.forEach((adBreak, index) => {
+    const time = getAdBreakTime(adBreak.offset, duration);
+    if (
+      !adBreak.isPlayed &&
+      time !== null &&
+      time > 0 &&
+      time !== Infinity &&
+      time <= currentTime &&
+      time >= dueTime
+    ) {
+      dueIndex = index;
+      dueTime = time;
+    }
+  });
+  return dueIndex;
+};
+
+/**
+ * @description marks the break and every mid-roll before it as played, the ones that were jumped over are
+ * not played anymore
+ */
+export const markAdBreaksPlayed = (
+  breaks: ScheduledAdBreak[],
+  index: number,
+  duration: number,
+): ScheduledAdBreak[] => {
+  const breakTime = getAdBreakTime(breaks[index].offset, duration);
+  return breaks.map((adBreak, breakIndex) => {
+    const time = getAdBreakTime(adBreak.offset, duration);
+    const isPassed =
+      breakTime !== null &&
+      breakTime !== Infinity &&
+      time !== null &&
+      time > 0 &&
+      time <= breakTime;
+    return breakIndex === index || isPassed
+      ? {...adBreak, isPlayed: true}
+      : adBreak;
+  });
+};
+
+/**
+ * @description the media file the player can play that is closest to the preferred width without going over it
+ */
+export const selectMediaFile = (
+  files: VastMediaFile[],
+): VastMediaFile | null => {
+  const playable = files.filter(file =>
+    PLAYABLE_MEDIA_TYPES.includes(file.type.toLowerCase()),
+  );
+  const fitting = playable.filter(file => file.width <= PREFERRED_MEDIA_WIDTH);
+  if (fitting.length > 0) {
+    return fitting.reduce((best, file) =>
+      file.width > best.width ? file : best,
+    );
+  }
+  return playable.length > 0
+    ? playable.reduce((best, file) => (file.width < best.width ? file : best))
+    : null;
+};
+
+const getUrls = (elements: XmlElement[]) =>
+  elements.map(element => element.text).filter(url => url.length > 0);
+
+const getTracking = (ad: XmlElement) => {
+  const tracking: VastAd['tracking'] = {
+    impression: getUrls(getChildren(ad, 'Impression')),
+    error: getUrls(getChildren(ad, 'Error')),
+  };
+  getAll(
+    ad,
+    'Creatives',
+    'Creative',
+    'Linear',
+    'TrackingEvents',
+    'Tracking',
+  ).forEach(element => {
+    const event = element.attributes.event as AdTrackingEvent;
+    if (element.text) {
+      tracking[event] = [...(tracking[event] ?? []), element.text];
+    }
+  });
+  return tracking;
+};
+
+const mergeTracking = (
+  tracking: VastAd['tracking'],
+  inherited: VastAd['tracking'],
+) => {
+  const merged = {...inherited};
+  (Object.keys(tracking) as AdTrackingEvent[]).forEach(event => {
+    merged[event] = [...(merged[event] ?? []), ...(tracking[event] ?? [])];
+  });
+  return merged;
+};
+
+const parseInlineAd = (
+  ad: XmlElement,
+  inline: XmlElement,
+  inherited: VastAd['tracking'],
+): VastAd | null => {
+  const linear = getAll(inline, 'Creatives', 'Creative', 'Linear')[0];
+  const duration = parseVastTime(getChild(linear, 'Duration')?.text);
+  const mediaFile = selectMediaFile(
+    getAll(linear, 'MediaFiles', 'MediaFile').map(file => ({
+      uri: file.text,
+      type: file.attributes.type ?? '',
+      width: parseInt(file.attributes.width ?? '0', 10),
+      height: parseInt(file.attributes.height ?? '0', 10),
+      bitrate: parseInt(file.attributes.bitrate ?? '0', 10),
+    })),
+  );
+  if (!linear || duration === null || !mediaFile) {
+    return null;
+  }
+  return {
+    id: ad.attributes.id,
+    title: getChild(inline, 'AdTitle')?.text,
+    duration,
+    skipOffset: parseVastTime(linear.attributes.skipoffset, duration),
+    mediaFile,
+    clickThrough: getChild(getChild(linear, 'VideoClicks'), 'ClickThrough')
+      ?.text,
+    tracking: mergeTracking(getTracking(inline), inherited),
+  };
+};
+
+/**
+ * @description replaces the VAST macros of a tracking url
+ */
+export const replaceMacros = (url: string, errorCode?: number) =>
+  url
+    .replace(/\[CACHEBUSTING\]/g, `${Math.floor(Math.random() * 1e8)}`)
+    .replace(/\[TIMESTAMP\]/g, encodeURIComponent(new Date().toISOString()))
+    .replace(/\[ERRORCODE\]/g, errorCode !== undefined ? `${errorCode}` : '');
+
+export const firePixels = (
+  urls: string[] | undefined,
+  http: AdHttp,
+  errorCode?: number,
+) => {
+  (urls ?? []).forEach(url => {
+    //tracking is fire and forget, a lost pixel must not stop the playback
+    http(replaceMacros(url, errorCode)).catch(() => {});
+  });
+};
+
+/**
+ * @description linear ads of a VAST response in the order of their sequence, wrappers are followed up to
+ * maxWrapperDepth deep. Ads that fail fire their error urls and are left out
+ */
+export const resolveVastAds = async (
+  source: {tagUrl?: string; vast?: string | XmlElement},
+  http: AdHttp = defaultAdHttp,
+  maxWrapperDepth: number = DEFAULT_MAX_WRAPPER_DEPTH,
+  depth: number = 0,
+  inherited: VastAd['tracking'] = {},
+): Promise<VastAd[]> => {
+  let vast = source.vast;
+  if (vast === undefined) {
+    if (!source.tagUrl) {
+      return [];
+    }
+    vast = await http(source.tagUrl);
+  }
+  const root = typeof vast === 'string' ? parseXml(vast) : vast;
+  const ads = getChildren(root, 'Ad').sort(
+    (a, b) =>
+      parseInt(a.attributes.sequence ?? '0', 10) -
+      parseInt(b.attributes.sequence ?? '0', 10),
+  );
+  if (ads.length === 0) {
+    firePixels(getUrls(getChildren(root, 'Error')), http, VAST_NO_ADS_ERROR);
+    firePixels(inherited.error, http, VAST_NO_ADS_ERROR);
+    return [];
+  }
+  const resolved = await Promise.all(
+    ads.map(async (ad): Promise<VastAd[]> => {
+      const inline = getChild(ad, 'InLine');
+      if (inline) {
+        const vastAd = parseInlineAd(ad, inline, inherited);
+        return vastAd ? [vastAd] : [];
+      }
+      const wrapper = getChild(ad, 'Wrapper');
+      const tracking = mergeTracking(getTracking(wrapper ?? ad), inherited);
+      if (!wrapper) {
+        return [];
+      }
+      if (depth + 1 > maxWrapperDepth) {
+        firePixels(tracking.error, http, VAST_WRAPPER_LIMIT_ERROR);
+        return [];
+      }
+      try {
+        return await resolveVastAds(
+          {tagUrl: getChild(wrapper, 'VASTAdTagURI')?.text},
+          http,
+          maxWrapperDepth,
+          depth + 1,
+          tracking,
+        );
+      } catch (e) {
+        firePixels(tracking.error, http, VAST_UNDEFINED_ERROR);
+        return [];
+      }
+    }),
+  );
+  return resolved.reduce((all, vastAds) => [...all, ...vastAds], []);
+};
+
+export const getSkipIn = (ad: VastAd, currentTime: number) =>
+  ad.skipOffset === null
+    ? null
+    : Math.max(Math.ceil(ad.skipOffset - currentTime), 0);
+
+/**
+ * @description quartile events the playback of an ad went past between two progress events
+ */
+export const getQuartileEvents = (
+  previousTime: number,
+  currentTime: number,
+  duration: number,
+): AdTrackingEvent[] =>
+  duration > 0
+    ? QUARTILES.filter(
+        ([quartile]) =>
+          previousTime < duration * quartile &&
+          currentTime >= duration * quartile,
+      ).map(([, event]) => event)
+    : [];
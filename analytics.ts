@@ -0,0 +1,277 @@
+import {PlayerErrorType} from './errors';
+
+/**
+ * @description why a playback session ended, sourceChange covers playlist entries and a new src
+ */
+export type SessionEndReason = 'ended' | 'sourceChange' | 'unmount';
+
+type EventBase = {
+  sessionId: string;
+  //unix time in ms
+  timestamp: number;
+};
+
+type AnalyticsEventData =
+  | {type: 'sessionStart'}
+  | {type: 'startup'; startupTime: number}
+  | {type: 'rebuffer'; duration: number}
+  | {type: 'seek'; from: number; to: number; latency: number}
+  | {type: 'error'; errorType: PlayerErrorType; message: string}
+  | {type: 'fullScreen'; isFullScreen: boolean}
+  | {type: 'mute'; isMute: boolean};
+
+/**
+ * @description single measurement of a playback session, seek positions are in seconds, durations and latencies in ms
+ */
+export type AnalyticsEvent = EventBase & AnalyticsEventData;
+
+/**
+ * @description totals of a playback session, reported once when it ends. startupTime is the time from the start of the
+ * session to the first frame, watchTime and contentDuration are in seconds, the other durations in ms
+ */
+export type SessionSummary = EventBase & {
+  type: 'session';
+  endReason: SessionEndReason;
+  startupTime: number | null;
+  rebufferCount: number;
+  rebufferDuration: number;
+  seekCount: number;
+  averageSeekLatency: number | null;
+  watchTime: number;
+  contentDuration: number;
+  errors: Partial<Record<PlayerErrorType, number>>;
+  fullScreenCount: number;
+  fullScreenDuration: number;
+  muteCount: number;
+};
+
+export type AnalyticsPayload = AnalyticsEvent | SessionSummary;
+
+/**
+ * @description receives the measurements of the player, both methods are optional so a reporter can
+ * take only the summaries
+ */
+export interface AnalyticsReporter {
+  reportEvent?: (event: AnalyticsEvent) => void;
+  reportSummary?: (summary: SessionSummary) => void;
+}
+
+//progress jumps longer than this are seeks or stalls, they do not count as watch time
+const MAX_WATCH_STEP = 1.5;
+
+export const createSessionId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * @description measures a single playback, the player calls the methods as things happen and the
+ * session turns them into events and a summary for the reporter
+ */
+export const createPlaybackSession = (
+  reporter: AnalyticsReporter,
+  now: () => number = Date.now,
+) => {
+  const sessionId = createSessionId();
+  const startedAt = now();
+  let isReady = false;
+  let isEnded = false;
+  let startupTime: number | null = null;
+  let bufferStartedAt: number | null = null;
+  let rebufferCount = 0;
+  let rebufferDuration = 0;
+  let pendingSeek: {from: number; to: number; startedAt: number} | null = null;
+  let seekCount = 0;
+  let seekLatencyTotal = 0;
+  let lastProgress: number | null = null;
+  let watchTime = 0;
+  let contentDuration = 0;
+  const errors: Partial<Record<PlayerErrorType, number>> = {};
+  let fullScreenStartedAt: number | null = null;
+  let fullScreenCount = 0;
+  let fullScreenDuration = 0;
+  let muteCount = 0;
+
+  const report = (event: AnalyticsEventData) => {
+    if (!isEnded) {
+      reporter.reportEvent?.({...event, sessionId, timestamp: now()});
+    }
+  };
+
+  const endBuffering = () => {
+    if (bufferStartedAt !== null) {
+      const duration = now() - bufferStartedAt;
+      bufferStartedAt = null;
+      rebufferCount++;
+      rebufferDuration += duration;
+      report({type: 'rebuffer', duration});
+    }
+  };
+
+  report({type: 'sessionStart'});
+
+  return {
+    sessionId,
+    ready: () => {
+      if (!isReady) {
+        isReady = true;
+        startupTime = now() - startedAt;
+        report({type: 'startup', startupTime});
+      }
+    },
+    buffering: (isBuffering: boolean) => {
+      //buffering before the first frame is part of the startup time
+      if (!isReady) {
+        return;
+      }
+      if (isBuffering && bufferStartedAt === null) {
+        bufferStartedAt = now();
+      } else if (!isBuffering) {
+        endBuffering();
+      }
+    },
+    seekStart: (from: number, to: number) => {
+      pendingSeek = {from, to, startedAt: now()};
+    },
+    seekEnd: () => {
+      if (pendingSeek) {
+        const latency = now() - pendingSeek.startedAt;
+        seekCount++;
+        seekLatencyTotal += latency;
+        report({
+          type: 'seek',
+          from: pendingSeek.from,
+          to: pendingSeek.to,
+          latency,
+        });
+        pendingSeek = null;
+      }
+    },
+    progress: (currentTime: number) => {
+      if (lastProgress !== null) {
+        const step = currentTime - lastProgress;
+        if (step > 0 && step <= MAX_WATCH_STEP) {
+          watchTime += step;
+        }
+      }
+      lastProgress = currentTime;
+    },
+    duration: (duration: number) => {
+      contentDuration = duration;
+    },
+    error: (errorType: PlayerErrorType, message: string) => {
+      errors[errorType] = (errors[errorType] ?? 0) + 1;
+      report({type: 'error', errorType, message});
+    },
+    fullScreen: (isFullScreen: boolean) => {
+      if (isFullScreen && fullScreenStartedAt === null) {
+        fullScreenStartedAt = now();
+        fullScreenCount++;
+      } else if (!isFullScreen && fullScreenStartedAt !== null) {
+        fullScreenDuration += now() - fullScreenStartedAt;
+        fullScreenStartedAt = null;
+      }
+      report({type: 'fullScreen', isFullScreen});
+    },
+    mute: (isMute: boolean) => {
+      if (isMute) muteCount++;
+      report({type: 'mute', isMute});
+    },
+    end: (endReason: SessionEndReason) => {
+      if (isEnded) {
+        return;
+      }
+      endBuffering();
+      if (fullScreenStartedAt !== null) {
+        fullScreenDuration += now() - fullScreenStartedAt;
+      }
+      isEnded = true;
+      reporter.reportSummary?.({
+        type: 'session',
+        sessionId,
+        timestamp: now(),
+        endReason,
+        startupTime,
+        rebufferCount,
+        rebufferDuration,
+        seekCount,
+        averageSeekLatency: seekCount > 0 ? seekLatencyTotal / seekCount : null,
+        watchTime,
+        contentDuration,
+        errors,
+        fullScreenCount,
+        fullScreenDuration,
+        muteCount,
+      });
+    },
+  };
+};
+
+export type PlaybackSession = ReturnType<typeof createPlaybackSession>;
+
+/**
+ * @description logs every event and summary, meant for development
+ */
+export const createConsoleReporter = (
+  tag: string = '[VideoPlayer]',
+): AnalyticsReporter => ({
+  reportEvent: event => console.log(tag, event.type, event),
+  reportSummary: summary => console.log(tag, 'session', summary),
+});
+
+/**
+ * @description collects events and summaries and sends them in batches, a batch is sent once it is full, once the
+ * flush interval has passed or right away for a summary. Batches that fail to send are kept for the next flush
+ * @param {function} send - sends a batch to the analytics backend
+ * @param {number} maxBatchSize - default is 20
+ * @param {number} flushInterval - ms to wait for more events before sending a batch, default is 10000
+ * @param {number} maxQueueSize - the oldest payloads are dropped once this many are waiting, default is 1000
+ */
+export const createBatchingReporter = (options: {
+  send: (batch: AnalyticsPayload[]) => Promise<void> | void;
+  maxBatchSize?: number;
+  flushInterval?: number;
+  maxQueueSize?: number;
+}): AnalyticsReporter & {flush: () => void} => {
+  const maxBatchSize = options.maxBatchSize ?? 20;
+  const flushInterval = options.flushInterval ?? 10000;
+  const maxQueueSize = options.maxQueueSize ?? 1000;
+  let queue: AnalyticsPayload[] = [];
+  let flushTimer: any = null;
+
+  const flush = () => {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+    while (queue.length > 0) {
+      const batch = queue.slice(0, maxBatchSize);
+      queue = queue.slice(batch.length);
+      Promise.resolve()
+        .then(() => options.send(batch))
+        .catch(() => {
+          queue = [...batch, ...queue].slice(-maxQueueSize);
+          scheduleFlush();
+        });
+    }
+  };
+
+  const scheduleFlush = () => {
+    if (!flushTimer) {
+      flushTimer = setTimeout(flush, flushInterval);
+    }
+  };
+
+  const enqueue = (payload: AnalyticsPayload, sendNow: boolean) => {
+    queue = [...queue, payload].slice(-maxQueueSize);
+    if (sendNow || queue.length >= maxBatchSize) {
+      flush();
+    } else {
+      scheduleFlush();
+    }
+  };
+
+  return {
+    reportEvent: event => enqueue(event, false),
+    reportSummary: summary => enqueue(summary, true),
+    flush,
+  };
+};
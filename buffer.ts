@@ -0,0 +1,52 @@
+/**
+ * @description buffer sizes of the player in ms, android only. minBufferMs and maxBufferMs bound the media kept
+ * ahead of the playback, the other two are how much is needed to start and to continue after a stall
+ */
+export type BufferConfig = {
+  minBufferMs?: number;
+  maxBufferMs?: number;
+  bufferForPlaybackMs?: number;
+  bufferForPlaybackAfterRebufferMs?: number;
+};
+
+/**
+ * @description feed - small buffers for many short videos on one screen, vod - long buffers for watching a whole
+ * video, live - a few seconds behind the live edge
+ */
+export type BufferPreset = 'feed' | 'vod' | 'live';
+
+export const BUFFER_PRESETS: Record<BufferPreset, BufferConfig> = {
+  feed: {
+    minBufferMs: 1500,
+    maxBufferMs: 5000,
+    bufferForPlaybackMs: 1000,
+    bufferForPlaybackAfterRebufferMs: 1500,
+  },
+  vod: {
+    minBufferMs: 15000,
+    maxBufferMs: 50000,
+    bufferForPlaybackMs: 2500,
+    bufferForPlaybackAfterRebufferMs: 5000,
+  },
+  live: {
+    minBufferMs: 5000,
+    maxBufferMs: 15000,
+    bufferForPlaybackMs: 1500,
+    bufferForPlaybackAfterRebufferMs: 3000,
+  },
+};
+
+//what the player has always used, kept as the default
+export const DEFAULT_BUFFER_CONFIG: BufferConfig = {
+  minBufferMs: 1500,
+  maxBufferMs: 2000,
+  bufferForPlaybackMs: 1200,
+  bufferForPlaybackAfterRebufferMs: 1200,
+};
+
+export const getBufferConfig = (
+  bufferConfig?: BufferConfig | BufferPreset,
+): BufferConfig =>
+  typeof bufferConfig === 'string'
+    ? BUFFER_PRESETS[bufferConfig]
+    : bufferConfig ?? DEFAULT_BUFFER_CONFIG;
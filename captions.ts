@@ -0,0 +1,291 @@
+/**
+ * @description sidecar subtitle or closed caption track
+ * @param {string} title - name of the track shown in the captions menu
+ * @param {string} language - language code of the track, e.g. en
+ * @param {string} type - vtt or srt, guessed from the uri or the content when not passed
+ * @param {string} uri - url of the subtitle file, not needed when content is passed
+ * @param {string} content - the subtitle file itself as a string
+ */
+export type TextTrack = {
+  title: string;
+  language?: string;
+  type?: CaptionFormat;
+  uri?: string;
+  content?: string;
+};
+
+export type CaptionFormat = 'vtt' | 'srt';
+
+export type CaptionSpan = {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+};
+
+/**
+ * @description line - the line setting of the cue, null when it is not set and the cue goes to the bottom,
+ * lineIsPercentage - whether the line is a percentage of the video height or a line number,
+ * align - text alignment of the cue
+ */
+export type CuePosition = {
+  line: number | null;
+  lineIsPercentage: boolean;
+  align: 'start' | 'center' | 'end' | 'left' | 'right';
+};
+
+/**
+ * @description single caption cue, start and end are in seconds and every entry of lines is one
+ * line of the cue made of bold/italic spans
+ */
+export type Cue = {
+  start: number;
+  end: number;
+  lines: CaptionSpan[][];
+  position: CuePosition;
+};
+
+const TIMESTAMP_REGEX = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/;
+const TIMING_REGEX = /^\s*(\S+)\s+-->\s+(\S+)(.*)$/;
+
+/**
+ * @description parses a WebVTT (00:01.000 or 00:00:01.000) or SRT (00:00:01,000) timestamp into
+ * seconds, returns null when the timestamp is malformed
+ */
+export const parseTimestamp = (timestamp: string): number | null => {
+  const match = TIMESTAMP_REGEX.exec(timestamp.trim());
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    parseInt(hours ?? '0', 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    parseInt(fraction.padEnd(3, '0'), 10) / 1000
+  );
+};
+
+const ENTITIES: {[entity: string]: string} = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': '\u00A0',
+  '&lrm;': '\u200E',
+  '&rlm;': '\u200F',
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(?:amp|lt|gt|quot|#39|nbsp|lrm|rlm);/g, e => ENTITIES[e]);
+
+/**
+ * @description splits the text of a cue into lines of spans, <b> and <i> are kept as styling, every
+ * other tag (<u>, <v Speaker>, <c.class>, <font>, karaoke timestamps) is dropped and its text kept
+ */
+export const parseCueText = (text: string): CaptionSpan[][] => {
+  let bold = false;
+  let italic = false;
+  return text.split('\n').map(line => {
+    const spans: CaptionSpan[] = [];
+    const pushText = (value: string) => {
+      if (value.length === 0) {
+        return;
+      }
+      const decoded = decodeEntities(value);
+      const last = spans[spans.length - 1];
+      if (last && last.bold === bold && last.italic === italic) {
+        last.text += decoded;
+      } else {
+        spans.push({text: decoded, bold, italic});
+      }
+    };
+    const tagRegex = /<(\/?)([a-zA-Z]*)[^>]*>/g;
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = tagRegex.exec(line)) !== null) {
+      pushText(line.slice(lastIndex, match.index));
+      lastIndex = tagRegex.lastIndex;
+      const isOpening = match[1] !== '/';
+      const tag = match[2].toLowerCase();
+      if (tag === 'b') {
+        bold = isOpening;
+      } else if (tag === 'i') {
+        italic = isOpening;
+      }
+    }
+    pushText(line.slice(lastIndex));
+    return spans;
+  });
+};
+
+const parseCueSettings = (settings: string): CuePosition => {
+  const position: CuePosition = {
+    line: null,
+    lineIsPercentage: false,
+    align: 'center',
+  };
+  settings
+    .trim()
+    .split(/\s+/)
+    .forEach(setting => {
+      const [name, value] = setting.split(':');
+      if (!value) {
+        return;
+      }
+      if (name === 'line') {
+        const lineValue = value.split(',')[0];
+        const line = parseFloat(lineValue);
+        if (!isNaN(line)) {
+          position.line = line;
+          position.lineIsPercentage = lineValue.endsWith('%');
+        }
+      } else if (
+        name === 'align' &&
+        ['start', 'center', 'end', 'left', 'right'].includes(value)
+      ) {
+        position.align = value as CuePosition['align'];
+      }
+    });
+  return position;
+};
+
+//SRT files position cues with ASS style tags, {\an7} to {\an9} put the cue on top of the video
+const parseSrtPositionTag = (text: string, position: CuePosition) => {
+  const match = /^\{\\an(\d)\}/.exec(text);
+  if (!match) {
+    return text;
+  }
+  const alignment = parseInt(match[1], 10);
+  if (alignment >= 7) {
+    position.line = 0;
+    position.lineIsPercentage = true;
+  } else if (alignment >= 4) {
+    position.line = 50;
+    position.lineIsPercentage = true;
+  }
+  const column = (alignment - 1) % 3;
+  position.align = column === 0 ? 'left' : column === 2 ? 'right' : 'center';
+  return text.slice(match[0].length);
+};
+
+/**
+ * @description cue as written in a WebVTT or SRT file, before its text and settings are interpreted,
+ * shared by the captions, thumbnails and chapters parsers
+ */
+export type RawCue = {
+  start: number;
+  end: number;
+  settings: string;
+  text: string;
+};
+
+/**
+ * @description splits a WebVTT or SRT file into its timed cues, blocks without a valid timing line
+ * (the WEBVTT header, NOTE, STYLE and REGION blocks) are skipped and the cues are sorted by start time
+ */
+export const parseRawCues = (input: string): RawCue[] => {
+  const cues: RawCue[] = [];
+  const blocks = input
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n(?:[ \t]*\n)+/);
+  blocks.forEach(block => {
+    const lines = block.split('\n').filter((line, index, all) => {
+      //a trailing empty line can be left after splitting
+      return !(index === all.length - 1 && line.trim() === '');
+    });
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    //the timing line can only be preceded by the cue identifier
+    if (timingIndex < 0 || timingIndex > 1) {
+      return;
+    }
+    const timing = TIMING_REGEX.exec(lines[timingIndex]);
+    if (!timing) {
+      return;
+    }
+    const start = parseTimestamp(timing[1]);
+    const end = parseTimestamp(timing[2]);
+    if (start === null || end === null || end < start) {
+      return;
+    }
+    const text = lines.slice(timingIndex + 1).join('\n');
+    cues.push({start, end, settings: timing[3], text});
+  });
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+const parseBlocks = (input: string, format: CaptionFormat): Cue[] => {
+  const cues: Cue[] = [];
+  parseRawCues(input).forEach(({start, end, settings, text}) => {
+    const position = parseCueSettings(format === 'vtt' ? settings : '');
+    if (format === 'srt') {
+      text = parseSrtPositionTag(text, position);
+    }
+    if (text.trim().length === 0) {
+      return;
+    }
+    cues.push({start, end, lines: parseCueText(text), position});
+  });
+  return cues;
+};
+
+/**
+ * @description parses a WebVTT file, NOTE, STYLE and REGION blocks are skipped
+ */
+export const parseWebVTT = (input: string): Cue[] => {
+  return parseBlocks(input, 'vtt');
+};
+
+/**
+ * @description parses a SubRip (SRT) file
+ */
+export const parseSRT = (input: string): Cue[] => {
+  return parseBlocks(input, 'srt');
+};
+
+/**
+ * @description guesses the format of the track from its type, uri or content
+ */
+export const getCaptionFormat = (
+  track: TextTrack,
+  content: string,
+): CaptionFormat => {
+  if (track.type) {
+    return track.type;
+  }
+  if (track.uri && /\.srt($|\?)/i.test(track.uri)) {
+    return 'srt';
+  }
+  return /^\uFEFF?WEBVTT/.test(content) ? 'vtt' : 'srt';
+};
+
+export const parseCaptions = (track: TextTrack, content: string): Cue[] => {
+  return getCaptionFormat(track, content) === 'vtt'
+    ? parseWebVTT(content)
+    : parseSRT(content);
+};
+
+/**
+ * @description loads the content of the track, either the inline content or the file from its uri
+ */
+export const loadTextTrack = async (track: TextTrack): Promise<Cue[]> => {
+  if (track.content !== undefined) {
+    return parseCaptions(track, track.content);
+  }
+  if (!track.uri) {
+    return [];
+  }
+  const response = await fetch(track.uri);
+  if (!response.ok) {
+    throw new Error(`Failed to load text track ${track.uri}`);
+  }
+  return parseCaptions(track, await response.text());
+};
+
+/**
+ * @description returns the cues that should be on screen at the given time
+ */
+export const getActiveCues = (cues: Cue[], time: number): Cue[] => {
+  return cues.filter(cue => cue.start <= time && time < cue.end);
+};
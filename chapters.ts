@@ -0,0 +1,121 @@
+import {parseCueText, parseRawCues} from './captions';
+
+/**
+ * @description chapter of the video, start and end are in seconds, the end defaults to the start of
+ * the next chapter or to the end of the video
+ */
+export type Chapter = {
+  start: number;
+  title: string;
+  end?: number;
+};
+
+/**
+ * @description point of interest drawn as a tick on the seekbar, e.g. an ad break or a highlight
+ */
+export type Marker = {
+  time: number;
+  color?: string;
+  label?: string;
+};
+
+/**
+ * @description WebVTT chapters file, every cue is a chapter and its text is the title
+ * @param {string} uri - url of the WebVTT file, not needed when content is passed
+ * @param {string} content - the WebVTT file itself as a string
+ */
+export type ChaptersTrack = {
+  uri?: string;
+  content?: string;
+};
+
+//previous chapter restarts the current one unless it has just started, like previous in a playlist
+const RESTART_CHAPTER_THRESHOLD = 3;
+
+export const parseChapters = (input: string): Chapter[] => {
+  return parseRawCues(input)
+    .map(({start, end, text}) => ({
+      start,
+      end,
+      title: parseCueText(text.trim())
+        .map(line => line.map(span => span.text).join(''))
+        .join(' '),
+    }))
+    .filter(chapter => chapter.title.length > 0);
+};
+
+export const loadChapters = async (
+  track: ChaptersTrack,
+): Promise<Chapter[]> => {
+  if (track.content !== undefined) {
+    return parseChapters(track.content);
+  }
+  if (!track.uri) {
+    return [];
+  }
+  const response = await fetch(track.uri);
+  if (!response.ok) {
+    throw new Error(`Failed to load chapters track ${track.uri}`);
+  }
+  return parseChapters(await response.text());
+};
+
+/**
+ * @description sorts the chapters and fills in the missing ends, chapters starting after the end of the
+ * video are dropped
+ */
+export const normalizeChapters = (
+  chapters: Chapter[],
+  duration: number,
+): Required<Chapter>[] => {
+  const sorted = chapters
+    .filter(chapter => duration <= 0 || chapter.start < duration)
+    .sort((a, b) => a.start - b.start);
+  return sorted.map((chapter, index) => ({
+    ...chapter,
+    end: chapter.end ?? sorted[index + 1]?.start ?? duration,
+  }));
+};
+
+/**
+ * @description index of the chapter playing at the given time, -1 before the first chapter or between two chapters
+ */
+export const getChapterIndexAt = (
+  chapters: Required<Chapter>[],
+  time: number,
+): number => {
+  for (let index = chapters.length - 1; index >= 0; index--) {
+    const {start, end} = chapters[index];
+    if (start <= time) {
+      //the last chapter includes its end, which is usually the end of the video
+      const isInside =
+        time < end || (index === chapters.length - 1 && time <= end);
+      return isInside ? index : -1;
+    }
+  }
+  return -1;
+};
+
+/**
+ * @description start of the chapter after the one playing at the given time, null on the last chapter
+ */
+export const getNextChapterStart = (
+  chapters: Required<Chapter>[],
+  time: number,
+): number | null => {
+  return chapters.find(chapter => chapter.start > time)?.start ?? null;
+};
+
+/**
+ * @description start of the chapter playing at the given time, or of the one before when the current
+ * chapter has just started
+ */
+export const getPreviousChapterStart = (
+  chapters: Required<Chapter>[],
+  time: number,
+): number | null => {
+  const previous = chapters.filter(
+    chapter => chapter.start <= time - RESTART_CHAPTER_THRESHOLD,
+  );
+  return previous.length > 0 ? previous[previous.length - 1].start : null;
+};
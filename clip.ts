@@ -0,0 +1,77 @@
+/**
+ * @description part of the source that is played, in seconds of the source
+ */
+export type ClipRange = {
+  start: number;
+  end: number;
+};
+
+/**
+ * @description A–B repeat of the player, b stays null while only the start of the loop is set
+ */
+export type ABRepeat = {
+  a: number;
+  b: number | null;
+};
+
+//progress events come every 250ms, reaching the end this close is reaching it
+const END_TOLERANCE = 0.1;
+
+/**
+ * @description range of the startTime and endTime props within the duration of the source, null when the
+ * whole source plays
+ */
+export const getClipRange = (
+  startTime: number | undefined,
+  endTime: number | undefined,
+  duration: number,
+): ClipRange | null => {
+  if (startTime === undefined && endTime === undefined) {
+    return null;
+  }
+  const end =
+    endTime !== undefined && (duration <= 0 || endTime < duration)
+      ? endTime
+      : duration;
+  const start = Math.min(Math.max(startTime ?? 0, 0), end);
+  return {start, end};
+};
+
+export const hasReachedEnd = (currentTime: number, end: number) =>
+  currentTime >= end - END_TOLERANCE;
+
+/**
+ * @description next state of the A–B repeat button: the first press sets A, the second sets B and
+ * the third turns the repeat off
+ */
+export const toggleABRepeat = (
+  repeat: ABRepeat | null,
+  currentTime: number,
+): ABRepeat | null => {
+  if (!repeat) {
+    return {a: currentTime, b: null};
+  }
+  if (repeat.b !== null) {
+    return null;
+  }
+  if (currentTime === repeat.a) {
+    return repeat;
+  }
+  return {
+    a: Math.min(repeat.a, currentTime),
+    b: Math.max(repeat.a, currentTime),
+  };
+};
+
+/**
+ * @description where the playback jumps back to, null while it can go on
+ */
+export const getLoopBackTime = (
+  currentTime: number,
+  repeat: ABRepeat | null,
+): number | null => {
+  if (!repeat || repeat.b === null) {
+    return null;
+  }
+  return hasReachedEnd(currentTime, repeat.b) ? repeat.a : null;
+};
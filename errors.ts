@@ -0,0 +1,104 @@
+import {LoadError} from 'react-native-video';
+
+export type PlayerErrorType =
+  | 'network'
+  | 'unsupported'
+  | 'decode'
+  | 'forbidden'
+  | 'notFound'
+  | 'unknown';
+
+/**
+ * @description error reported by the video player, sorted into a type with a readable message,
+ * the original LoadError is kept as cause
+ */
+export type PlayerError = {
+  type: PlayerErrorType;
+  message: string;
+  cause: LoadError;
+};
+
+/**
+ * @description automatic retries of the player, the delay before retry n is initialDelayMs * factor^(n - 1)
+ * capped at maxDelayMs
+ * @param {number} maxAttempts - maximum number of automatic retries, 0 disables them, default is 3
+ * @param {number} initialDelayMs - delay before the first retry, default is 1000
+ * @param {number} maxDelayMs - maximum delay between two retries, default is 10000
+ * @param {number} factor - multiplier applied to the delay after every retry, default is 2
+ */
+export type RetryConfig = {
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  factor?: number;
+};
+
+export const ERROR_MESSAGES: {[type in PlayerErrorType]: string} = {
+  network: 'Please check your internet connection and try again.',
+  unsupported: 'This video format is not supported on your device.',
+  decode: 'This video could not be played on your device.',
+  forbidden: 'You do not have access to this video.',
+  notFound: 'This video is not available anymore.',
+  unknown: 'Something went wrong while playing this video.',
+};
+
+const DEFAULT_RETRY_CONFIG: Required<RetryConfig> = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 10000,
+  factor: 2,
+};
+
+//the shape of LoadError differs between ExoPlayer and AVPlayer, so the error is matched as a whole
+const ERROR_PATTERNS: [PlayerErrorType, RegExp][] = [
+  ['forbidden', /Response code: 403|HTTP 403|"code":-12660\b/i],
+  ['notFound', /Response code: 404|HTTP 404|"code":-(12938|1100)\b/i],
+  [
+    'unsupported',
+    /Unrecognized ?(media|input) ?format|UnrecognizedInputFormat|not supported|"code":-(11828|11829|12847)\b/i,
+  ],
+  [
+    'decode',
+    /decoder|MediaCodec|Renderer error|"code":-(11821|11833|11827)\b/i,
+  ],
+  [
+    'network',
+    /Unable to connect|HttpDataSource|UnknownHost|SocketTimeout|ConnectException|NSURLErrorDomain|"code":-(1001|1003|1004|1005|1009|11800)\b/i,
+  ],
+];
+
+export const classifyError = (
+  error: LoadError,
+  messages: {[type in PlayerErrorType]: string} = ERROR_MESSAGES,
+): PlayerError => {
+  let description = '';
+  try {
+    description = JSON.stringify(error);
+  } catch (e) {}
+  const match = ERROR_PATTERNS.find(([, pattern]) => pattern.test(description));
+  const type: PlayerErrorType = match ? match[0] : 'unknown';
+  return {type, message: messages[type], cause: error};
+};
+
+/**
+ * @description whether retrying can help, an unsupported or missing video fails again on every retry
+ */
+export const isRetriable = (error: PlayerError) =>
+  error.type === 'network' || error.type === 'unknown';
+
+export const getRetryConfig = (
+  config?: RetryConfig,
+): Required<RetryConfig> => ({
+  maxAttempts: config?.maxAttempts ?? DEFAULT_RETRY_CONFIG.maxAttempts,
+  initialDelayMs: config?.initialDelayMs ?? DEFAULT_RETRY_CONFIG.initialDelayMs,
+  maxDelayMs: config?.maxDelayMs ?? DEFAULT_RETRY_CONFIG.maxDelayMs,
+  factor: config?.factor ?? DEFAULT_RETRY_CONFIG.factor,
+});
+
+/**
+ * @description delay in ms before the given retry attempt, attempt starts at 1
+ */
+export const getRetryDelay = (attempt: number, config?: RetryConfig) => {
+  const {initialDelayMs, maxDelayMs, factor} = getRetryConfig(config);
+  return Math.min(initialDelayMs * Math.pow(factor, attempt - 1), maxDelayMs);
+};
@@ -0,0 +1,249 @@
+import {ViewabilityConfigCallbackPairs} from 'react-native';
+
+/**
+ * @description what a feed can make a player do, the player registers them when it mounts
+ */
+export type FeedPlayerControls = {
+  play: () => void;
+  pause: () => void;
+  //loads the source of a player that waited to become visible
+  load: () => void;
+};
+
+/**
+ * @description options of a player feed
+ * @param {number} maxPlayingPlayers - how many players may play at the same time, default is 1
+ * @param {number} viewabilityThreshold - part of a player between 0 and 1 that has to be on screen for it to
+ *        count as visible, default is 0.5. FlatList can not change its viewabilityConfigCallbackPairs, a threshold set later
+ *        with setOptions is rounded up to a tenth for the visibility FlatList reports
+ * @param {boolean} autoplay - default is true, pass false to only pause players instead of starting the most visible one
+ * @param {boolean} lazyLoad - default is false, pass true to load the source of a player once it is visible for the first time
+ */
+export type PlayerFeedOptions = {
+  maxPlayingPlayers?: number;
+  viewabilityThreshold?: number;
+  autoplay?: boolean;
+  lazyLoad?: boolean;
+};
+
+/**
+ * @description coordinates the players of a feed: keeps at most maxPlayingPlayers playing, plays the most
+ * visible one and pauses the ones that leave the screen. Players are tracked by the key of their FlatList item,
+ * players without a key only count for maxPlayingPlayers
+ */
+export type PlayerFeed = {
+  //returns the unregister function
+  register: (
+    id: string,
+    controls: FeedPlayerControls,
+    options: {isTracked: boolean; autoplay: boolean},
+  ) => () => void;
+  //whether the player has to wait with loading its source until it is visible
+  shouldDeferLoad: (id: string) => boolean;
+  //visibility between 0 and 1, for lists that measure it themselves instead of passing viewabilityConfigCallbackPairs
+  setVisibility: (id: string, visibility: number, order?: number) => void;
+  setPlaying: (id: string, isPlaying: boolean) => void;
+  focus: (id: string) => void;
+  blur: (id: string) => void;
+  pauseAll: () => void;
+  setOptions: (options: PlayerFeedOptions) => void;
+  //pass these to the FlatList of the feed, they report the visibility of the items in steps of a tenth
+  viewabilityConfigCallbackPairs: ViewabilityConfigCallbackPairs;
+};
+
+//FlatList only tells whether an item passes a threshold, one threshold per step tells how much of it is visible
+const VISIBILITY_STEPS = Array.from(
+  {length: 10},
+  (_, index) => (index + 1) / 10,
+);
+
+type FeedEntry = FeedPlayerControls & {
+  id: string;
+  isTracked: boolean;
+  autoplay: boolean;
+  order: number;
+  visibility: number;
+  isVisible: boolean;
+  isFocused: boolean;
+  isPausedByBlur: boolean;
+};
+
+/**
+ * @description creates the feed of a VideoPlayerProvider, create it yourself and pass it through the feed prop
+ * when the FlatList is rendered next to the provider instead of below it
+ */
+export const createPlayerFeed = (
+  options: PlayerFeedOptions = {},
+): PlayerFeed => {
+  let currentOptions = options;
+  const entries = new Map<string, FeedEntry>();
+  //ids survive the unmounting of FlatList items that scrolled far away
+  const seenIds = new Set<string>();
+  const steps = [
+    ...new Set([...VISIBILITY_STEPS, options.viewabilityThreshold ?? 0.5]),
+  ].sort((a, b) => a - b);
+  //index of every item FlatList reported as viewable by step, also for the players that register after the report
+  const viewableItems = new Map<number, Map<string, number>>();
+  let playingIds: string[] = [];
+  let activeId: string | null = null;
+  let registrations = 0;
+  let isReportPending = false;
+
+  const pause = (entry: FeedEntry) => {
+    playingIds = playingIds.filter(id => id !== entry.id);
+    entry.pause();
+  };
+
+  const update = () => {
+    const tracked = [...entries.values()].filter(entry => entry.isTracked);
+    const viewabilityThreshold = currentOptions.viewabilityThreshold ?? 0.5;
+    tracked.forEach(entry => {
+      const isVisible = entry.visibility >= viewabilityThreshold;
+      if (isVisible && !seenIds.has(entry.id)) {
+        seenIds.add(entry.id);
+        entry.load();
+      }
+      if (entry.isVisible && !isVisible) {
+        pause(entry);
+      }
+      entry.isVisible = isVisible;
+    });
+    const [mostVisible] = tracked
+      .filter(entry => entry.isVisible && entry.isFocused && entry.autoplay)
+      .sort((a, b) => b.visibility - a.visibility || a.order - b.order);
+    const nextActiveId = mostVisible?.id ?? null;
+    if (nextActiveId !== activeId) {
+      activeId = nextActiveId;
+      if (mostVisible && (currentOptions.autoplay ?? true)) {
+        mostVisible.play();
+      }
+    }
+  };
+
+  const getReportedVisibility = (id: string) =>
+    steps.reduce(
+      (visibility, step) =>
+        viewableItems.get(step)?.has(id) ? step : visibility,
+      0,
+    );
+
+  const getReportedOrder = (id: string) =>
+    [...viewableItems.values()].find(items => items.has(id))?.get(id);
+
+  //FlatList calls the pairs one after the other, the most visible player is picked once all of them reported
+  const applyReports = () => {
+    isReportPending = false;
+    entries.forEach(entry => {
+      if (entry.isTracked) {
+        entry.visibility = getReportedVisibility(entry.id);
+        entry.order = getReportedOrder(entry.id) ?? entry.order;
+      }
+    });
+    update();
+  };
+
+  const setPlaying = (id: string, isPlaying: boolean) => {
+    playingIds = playingIds.filter(playingId => playingId !== id);
+    if (!isPlaying || !entries.has(id)) {
+      return;
+    }
+    playingIds = [...playingIds, id];
+    const maxPlayingPlayers = Math.max(
+      currentOptions.maxPlayingPlayers ?? 1,
+      1,
+    );
+    //the ones that started first make room
+    playingIds
+      .slice(0, Math.max(playingIds.length - maxPlayingPlayers, 0))
+      .forEach(playingId => {
+        const entry = entries.get(playingId);
+        if (entry) pause(entry);
+      });
+  };
+
+  return {
+    register: (id, controls, playerOptions) => {
+      const entry: FeedEntry = {
+        ...controls,
+        ...playerOptions,
+        id,
+        order: getReportedOrder(id) ?? registrations,
+        visibility: getReportedVisibility(id),
+        isVisible: false,
+        isFocused: true,
+        isPausedByBlur: false,
+      };
+      registrations++;
+      entries.set(id, entry);
+      if (entry.isTracked) update();
+      return () => {
+        if (entries.get(id) !== entry) {
+          return;
+        }
+        entries.delete(id);
+        playingIds = playingIds.filter(playingId => playingId !== id);
+        if (activeId === id) {
+          activeId = null;
+          update();
+        }
+      };
+    },
+    shouldDeferLoad: id =>
+      (currentOptions.lazyLoad ?? false) && !seenIds.has(id),
+    setVisibility: (id, visibility, order) => {
+      const entry = entries.get(id);
+      if (entry) {
+        entry.visibility = visibility;
+        if (order !== undefined) entry.order = order;
+        update();
+      }
+    },
+    setPlaying,
+    focus: id => {
+      const entry = entries.get(id);
+      if (entry && !entry.isFocused) {
+        entry.isFocused = true;
+        if (entry.isPausedByBlur && activeId === id) {
+          entry.play();
+        }
+        entry.isPausedByBlur = false;
+        update();
+      }
+    },
+    blur: id => {
+      const entry = entries.get(id);
+      if (entry && entry.isFocused) {
+        entry.isFocused = false;
+        entry.isPausedByBlur = playingIds.includes(id);
+        pause(entry);
+      }
+    },
+    pauseAll: () => {
+      entries.forEach(pause);
+    },
+    setOptions: newOptions => {
+      const {viewabilityThreshold} = currentOptions;
+      currentOptions = {...currentOptions, ...newOptions};
+      if (currentOptions.viewabilityThreshold !== viewabilityThreshold) {
+        update();
+      }
+    },
+    viewabilityConfigCallbackPairs: steps.map(step => ({
+      viewabilityConfig: {itemVisiblePercentThreshold: step * 100},
+      onViewableItemsChanged: info => {
+        viewableItems.set(
+          step,
+          new Map(
+            info.viewableItems
+              .filter(item => item.isViewable)
+              .map(item => [item.key, item.index ?? 0]),
+          ),
+        );
+        if (!isReportPending) {
+          isReportPending = true;
+          setTimeout(applyReports, 0);
+        }
+      },
+    })),
+  };
+};
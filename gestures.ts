@@ -0,0 +1,89 @@
+import {ClipRange} from './clip';
+
+export type TapZone = 'left' | 'center' | 'right';
+
+export type PanIntent = 'scrub' | 'volume' | null;
+
+export type Tap = {
+  x: number;
+  y: number;
+  time: number;
+};
+
+export const DOUBLE_TAP_DELAY = 300;
+const DOUBLE_TAP_DISTANCE = 40;
+const PAN_THRESHOLD = 12;
+
+/**
+ * @description the video area is split in thirds, double taps on the left and right third seek
+ */
+export const getTapZone = (x: number, width: number): TapZone => {
+  if (x < width / 3) {
+    return 'left';
+  }
+  return x > (width * 2) / 3 ? 'right' : 'center';
+};
+
+export const isDoubleTap = (previousTap: Tap | null, tap: Tap) => {
+  if (!previousTap) {
+    return false;
+  }
+  return (
+    tap.time - previousTap.time <= DOUBLE_TAP_DELAY &&
+    Math.abs(tap.x - previousTap.x) <= DOUBLE_TAP_DISTANCE &&
+    Math.abs(tap.y - previousTap.y) <= DOUBLE_TAP_DISTANCE
+  );
+};
+
+/**
+ * @description whether the finger has moved far enough to be a pan instead of a tap
+ */
+export const isPan = (dx: number, dy: number) =>
+  Math.abs(dx) > PAN_THRESHOLD || Math.abs(dy) > PAN_THRESHOLD;
+
+/**
+ * @description a mostly horizontal pan scrubs, a mostly vertical pan that starts on the right half changes
+ * the volume, anything else is ignored
+ */
+export const getPanIntent = (
+  dx: number,
+  dy: number,
+  startX: number,
+  width: number,
+): PanIntent => {
+  if (!isPan(dx, dy)) {
+    return null;
+  }
+  if (Math.abs(dx) > Math.abs(dy)) {
+    return 'scrub';
+  }
+  return startX > width / 2 ? 'volume' : null;
+};
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+/**
+ * @description swiping up over the full height of the video raises the volume from 0 to 1
+ */
+export const getSwipeVolume = (
+  startVolume: number,
+  dy: number,
+  height: number,
+) => clamp(startVolume - dy / height, 0, 1);
+
+/**
+ * @description panning over the full width of the video scrubs through the whole range the seek bar covers,
+ * the clip, the dvr window or the whole video
+ */
+export const getScrubTime = (
+  startTime: number,
+  dx: number,
+  width: number,
+  range: ClipRange,
+) =>
+  clamp(
+    startTime + (dx / width) * (range.end - range.start),
+    range.start,
+    range.end,
+  );
@@ -7,3 +7,7 @@ export const mute = require('./assets/mute.png');
 export const audio = require('./assets/audio.png');
 export const exitFullscreen = require('./assets/exit-fullscreen.png');
 export const fullScreen = require('./assets/full-screen.png');
+export const next = require('./assets/next.png');
+export const previous = require('./assets/previous.png');
+export const closedCaptions = require('./assets/closed-captions.png');
+export const settings = require('./assets/settings.png');
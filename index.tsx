@@ -1,51 +1,103 @@
-import React, {RefObject, useEffect, useRef, useState} from 'react';
+import React, {
+  ForwardedRef,
+  forwardRef,
+  useImperativeHandle,
+  useRef,
+} from 'react';
 import {
   View,
-  Text,
-  Dimensions,
-  TouchableOpacity,
-  Image,
-  StyleSheet,
-  TouchableWithoutFeedback,
-  GestureResponderEvent,
+  TextStyle,
   ImageURISource,
   ActivityIndicator,
   StyleProp,
   ViewStyle,
   StatusBar,
-  Platform,
-  ScrollView,
+  Modal,
 } from 'react-native';
-import Video, {
-  LoadError,
-  OnBufferData,
-  OnLoadData,
-  OnProgressData,
-} from 'react-native-video';
-import {Slider} from '@miblanchard/react-native-slider';
-import Orientation from 'react-native-orientation';
-import SystemSetting from 'react-native-system-setting';
-import {useFocusEffect} from '@react-navigation/core';
-import {Immersive} from 'react-native-immersive';
-import DeviceInfo from 'react-native-device-info';
+import {SafeAreaProvider, SafeAreaView} from 'react-native-safe-area-context';
+import Video from 'react-native-video';
 import styles from './styles';
+import {getActiveCues} from './captions';
+import CaptionOverlay from './CaptionOverlay';
+import AdOverlay from './AdOverlay';
+import LazyPoster from './LazyPoster';
+import {BufferConfig, BufferPreset, getBufferConfig} from './buffer';
 import {
-  audio,
-  exitFullscreen,
-  forward,
-  fullScreen,
-  mute,
-  pause,
-  play,
-  retry,
-  rewind,
-} from './images';
-
-const {width} = Dimensions.get('screen');
+  getControlBarHeight,
+  mergeTheme,
+  useVideoPlayerTheme,
+  VideoPlayerTheme,
+  VideoPlayerThemeContext,
+  VideoPlayerThemeOverrides,
+} from './theme';
+import useVideoPlayer, {
+  UseVideoPlayerOptions,
+  VideoPlayerContext,
+  VideoPlayerState,
+} from './useVideoPlayer';
+import ControlsOverlay from './ControlsOverlay';
+import GestureArea from './GestureArea';
+import ErrorView, {ErrorViewParams} from './ErrorView';
+import ResumePrompt from './ResumePrompt';
+import UpNextOverlay from './UpNextOverlay';
+import SyncPauseBanner from './SyncPauseBanner';
 
 /**
  * @description Custom Video Player component
- * @param {string | number} src - source of the video file for the video player
+ * @param {object | number | array} src - source of the video file for the video player, not needed when playlist is passed. Pass
+ *        several sources, each with an optional type and headers, to fall back to the next one when a source fails to load or
+ *        shows no frame within sourceStartupTimeout. The next source continues at the same position, the retry screen only
+ *        comes after the last one
+ * @param {number} sourceStartupTimeout - ms to wait for the first frame before falling back to the next source, default is 15000
+ * @param {function} onSourceReady - called with the source and its index in src once its first frame is shown, once per source
+ * @param {function} onSourceError - called with the LoadError, the source and its index in src every time a source fails, and
+ *        whether the next source is tried. onError only follows once the last one failed
+ * @param {PlaylistItem[]} playlist - ordered list of videos to play one after the other, each with its own source, title and thumbnail
+ * @param {number} initialPlaylistIndex - index of the playlist entry to start with, default is 0
+ * @param {LoopMode} loopMode - none, one or all, decides what happens when a video ends, default is none
+ * @param {boolean} loop - shortcut for loopMode one, plays the video or clip over and over
+ * @param {number} startTime - seconds of the source the playback starts at, with endTime only that clip of the source plays
+ *        and the seekbar and time labels cover only the clip
+ * @param {number} endTime - seconds of the source the playback ends at
+ * @param {boolean} abRepeatButton - default is false, pass true to show the A–B repeat button in the control bar. The first press
+ *        sets A, the second sets B and the third turns the repeat off, the playback jumps back to A on reaching B
+ * @param {boolean} autoplayNext - default is true, pass false to stop at the end of every playlist entry
+ * @param {number} upNextCountdown - seconds of the up next overlay shown before the next entry plays, the next entry plays right away when not passed
+ * @param {ImageURISource | number} nextIconPath - path of the custom next icon
+ * @param {ImageURISource | number} previousIconPath - path of the custom previous icon
+ * @param {function} onPlaylistIndexChange - called with the index and the entry whenever another playlist entry starts
+ * @param {TextTrack[]} textTracks - sidecar WebVTT or SRT subtitle tracks, picked by the user from the captions button
+ * @param {number} defaultTextTrack - index of the text track shown at first, captions are off when not passed
+ * @param {function} onTextTrackChange - called with the index of the selected text track, or null when captions are turned off
+ * @param {styles} captionStyle - text style of the captions
+ * @param {styles} captionContainerStyle - style of the background box of the captions
+ * @param {ImageURISource | number} closedCaptionsIconPath - path of the custom captions icon
+ * @param {number} rate - playback rate, pass it together with onRateChange to control it, default is 1
+ * @param {number[]} playbackRates - rates offered in the settings menu, default is 0.5x to 2x
+ * @param {function} onRateChange - called with the playback rate picked in the settings menu
+ * @param {SelectedVideoTrack} selectedVideoTrack - quality of HLS/DASH sources, pass it together with onVideoTrackChange to control it, default is auto
+ * @param {function} onVideoTrackChange - called with the video track picked in the settings menu
+ * @param {SelectedAudioTrack} selectedAudioTrack - audio language, pass it together with onAudioTrackChange to control it, default is the system one
+ * @param {function} onAudioTrackChange - called with the audio track picked in the settings menu
+ * @param {boolean} settingsButton - default is true, pass false to hide the settings button
+ * @param {ImageURISource | number} settingsIconPath - path of the custom settings icon
+ * @param {RetryConfig} retryConfig - automatic retries with exponential backoff on network errors, default is 3 attempts starting after 1s
+ * @param {function} renderError - renders a custom error view instead of the default retry screen
+ * @param {string} resumeKey - unique key of the video, when passed the playback position is saved and the video resumes from it next time
+ * @param {PositionStorage} resumeStorage - where the playback positions are saved, default is an in-memory storage
+ * @param {number} resumeSaveInterval - how often in ms the position gets saved while playing, default is 5000
+ * @param {number} resumeCompletionThreshold - portion of the video after which it is considered finished and starts from the beginning next time, default is 0.95
+ * @param {boolean} resumePrompt - pass true to ask the user whether to resume instead of resuming right away
+ * @param {boolean} doubleTapToSeek - default is true, double tap the left or right third of the video to seek backward or forward
+ * @param {number} doubleTapSeekStep - seconds to seek on every double tap, default is 10
+ * @param {boolean} swipeToChangeVolume - default is true, swipe up or down on the right half of the video to change the volume
+ * @param {boolean} panToScrub - default is true, pan left or right on the video to scrub through it
+ * @param {ThumbnailTrack} previewThumbnails - WebVTT thumbnails track, its frames are shown above the seekbar while seeking
+ * @param {number} previewThumbnailWidth - width of the frame preview, default is 160
+ * @param {Chapter[]} chapters - chapters of the video, drawn as segments of the seekbar with the current title above it
+ * @param {ChaptersTrack} chaptersTrack - WebVTT chapters file, used when chapters is not passed
+ * @param {Marker[]} markers - points of interest drawn as ticks on the seekbar, e.g. ad breaks or highlights
+ * @param {function} onChapterChange - called with the chapter that starts playing, or null when playing outside of any chapter
  * @param {ImageURISource | number} playIconPath - path of the custom play icon
  * @param {ImageURISource | number} pauseIconPath - path of the custom pause icon
  * @param {ImageURISource | number} muteIconPath - path of the custom mute icon
@@ -58,58 +110,156 @@ const {width} = Dimensions.get('screen');
  * @param {string} loaderColor - pass the custom color for the video player loader, default is #0095ff
  * @param {boolean} wantFullScreen - pass true to enable fullscreen button or false to hide/disable full screen button, default is true
  * @param {styles} textStyle - pass text style for video play time and duration time
- * @param {Ref} rootElementRef - pass the reference of the root element
+ * @param {FullScreenMode} fullScreenMode - default is legacy, which patches the screen through rootElementRef and
+ *        scrollViewRef like older versions. Pass modal to render the full screen player in a Modal covering the screen
+ *        and the safe area instead. The Modal mounts the video again, which continues at the position of the content or
+ *        the ad and as far behind live
+ * @param {FullScreenOrientation} fullScreenOrientation - landscape, sensor or video, default is landscape
+ * @param {boolean} fullScreenOnRotate - pass true to enter full screen when the device is turned to landscape and leave it
+ *        when turned back to portrait
+ * @param {Ref} rootElementRef - legacy full screen only, pass the reference of the root element
  * @param {string} rootViewBgColor - pass the background color of the root element of the current screen
  * @param {boolean} forwardBackwardButtons - if true both forward and backward buttons are visible, otherwise hidden
  * @param {ImageURISource | number} forward10secsImagePath - pass the path of the forward 10secs icon
  * @param {ImageURISource | number} backward10secsImagePath - pass the path of the rewind 10secs icon
  * @param {string} thumbnailPath - paas the string path of the thumbnail
- * @param {RefObject} scrollViewRef - pass the reference of the scrollview (if any) present in the current screen
- * @param {number} androidPaddingVertical - in case of android when the player exit full screen, it still considers the space of
+ * @param {RefObject} scrollViewRef - legacy full screen only, pass the reference of the scrollview (if any) present in the current screen
+ * @param {function} onPlay - called when the playback starts or resumes
+ * @param {function} onPause - called when the playback gets paused or stops at the end
+ * @param {function} onEnd - called when the video reaches its end
+ * @param {function} onSeek - called with the previous and the new position in seconds once a seek is done
+ * @param {function} onProgress - called with the current time and the duration in seconds while the video plays
+ * @param {function} onBuffering - called with true when the player starts buffering and with false once it stops
+ * @param {function} onError - called with the LoadError when the video fails to load or play
+ * @param {function} onFullScreenChange - called with true on entering full screen and with false on exiting it
+ * @param {function} onMuteChange - called with true when the video gets muted and with false when it gets unmuted, also
+ *        when the muted prop changes
+ * @param {number} volume - volume of the player between 0 and 1, pass it with onVolumeChange to control the volume. The
+ *        volume is the one of the video and leaves the device volume alone unless followSystemVolume is true
+ * @param {boolean} muted - pass it with onMuteChange to control muting, unmuting goes back to the volume before muting
+ * @param {function} onVolumeChange - called with the new volume when the user changes it
+ * @param {boolean} startMuted - default is false, pass true to start muted e.g. in feeds
+ * @param {boolean} followSystemVolume - default is false, pass true to have the volume follow and set the device volume
+ * @param {SyncController} sync - watch together, made with createSyncController. The play, pause, seek and rate changes of the
+ *        user are sent to the other devices and theirs are applied without being sent back, a pause of another device
+ *        shows its name on the video
+ * @param {boolean} lazy - default is false, pass true to show only the poster with a play button, the title and the duration
+ *        until the user taps it. The video is mounted and starts playing on the tap
+ * @param {boolean} preload - lazy mode only, default is false, pass true to mount the video paused behind the poster so that
+ *        it starts buffering before the tap
+ * @param {string} title - title on the poster of the lazy mode, defaults to the title of the playlist entry
+ * @param {number} posterDuration - seconds shown on the poster of the lazy mode, defaults to the duration once it is known
+ * @param {BufferConfig | BufferPreset} bufferConfig - android buffer sizes in ms or one of the presets feed, vod and live.
+ *        Default is a short buffer of 1.5 to 2 seconds
+ * @param {boolean} volumeSlider - default is true, a long press on the mute button opens a volume slider above it
+ * @param {function} onControlsVisibilityChange - called with true when the media controls are shown and with false when hidden
+ * @param {number} androidPaddingVertical - legacy full screen only, in case of android when the player exit full screen, it still considers the space of
  *        nav buttons and status bar to be free for use, bacause of that anything at the bottom and top gets hidden. default value is
  *        48. this issue does not occur on the very first render.
- * @summary in order to make full screen work properly, make sure you pass the root element ref and scroll element ref(if any)
+ * @param {string} locale - language of the texts of the player, es, fr and de are built in, default is english
+ * @param {VideoPlayerStringOverrides} strings - texts of the player, pass the ones to change or translate: the accessibility labels,
+ *        the menus, prompts, gesture indicators and error messages. They win over the locale and the accessibilityLabels
+ * @param {function} timeFormatter - formats seconds for the time labels, the seekbar and the prompts, default is mm:ss or hh:mm:ss
+ * @param {boolean} showRemainingTime - default is false, the duration label shows the remaining time instead. Tapping the time
+ *        labels switches between the two
+ * @param {VideoPlayerLabels} accessibilityLabels - labels read by TalkBack and VoiceOver, pass the ones to translate,
+ *        the controls do not hide while one of them has the focus
+ * @param {AnalyticsReporter} analyticsReporter - receives quality of experience events and a summary of every playback session:
+ *        startup time, rebuffers, seek latency, watch time, errors by type and full screen and mute usage
+ * @param {string} liveMode - auto, live, dvr or off, default is auto which detects live streams by their unknown or growing
+ *        duration. Live streams show a LIVE badge and the time behind live, the seekbar covers the dvr window and a go live
+ *        button shows up once the playback falls behind. Detected live streams with a window under a minute and streams forced
+ *        with live can not be seeked
+ * @param {number} liveDvrWindow - length of the dvr window of the stream in seconds, by default the whole stream can be seeked
+ * @param {number} liveEdgeTolerance - seconds behind the live edge that still count as live, default is 10
+ * @param {AdsConfig} ads - VAST ads played in place of the content, a VMAP schedule as vmapUrl or vmap xml, or a list of
+ *        breaks with a VAST tag url or xml and an offset: start, end, seconds or a percentage. Wrappers are followed up
+ *        to maxWrapperDepth, the ad shows its remaining time and a skip button once it can be skipped, seeking is off and
+ *        the content continues where it stopped. Tracking pixels and tags go through the http function, default is fetch
+ * @param {KeyMap} keyMap - keys to commands, merged into the default key map: space and k play or pause, the left and right
+ *        arrows and j and l seek 10 seconds, m mutes, f toggles full screen and the media keys do what they say. Map a key
+ *        to null to turn it off. Any key press shows the controls
+ * @param {boolean} remoteControls - listens to the TV remote on react-native-tvos, default is true on TV devices. The arrows
+ *        move the focus between the controls while they are shown. On other devices forward the key events of your key
+ *        event module to the handleKey method of the ref
+ * @param {string} feedKey - key of the FlatList item of the player inside of a VideoPlayerProvider, the provider then starts
+ *        and pauses the player by its visibility and autoplay only tells whether the provider may start it
+ * @param {function} renderControls - renders custom controls with the state and actions of the player instead of the
+ *        default ControlsOverlay, rendered whenever controls is true so check showControls to hide them. The
+ *        exported PlayPauseButton, SeekBar, TimeLabel, MuteButton, VolumeSlider, FullScreenButton and LiveBadge can be
+ *        used inside of it
+ * @param {VideoPlayerThemeOverrides} theme - colors, icons, icon sizes, fonts, control bar and error screen of the player,
+ *        merged into the theme of the closest VideoPlayerThemeProvider. The icon paths, seekBarThumbSize, seekBarThumbColor,
+ *        loaderColor, textStyle and rootViewBgColor props are shortcuts into the theme and win over it
+ * @summary with the legacy full screen, make sure you pass the root element ref and scroll element ref(if any)
+ * @summary pass a ref to control the player from the host screen, see VideoPlayerHandle for the available methods
  */
 
-type Props = {
-  src: {uri: string} | number;
+type Props = UseVideoPlayerOptions & {
+  nextIconPath?: ImageURISource | number;
+  previousIconPath?: ImageURISource | number;
+  captionStyle?: StyleProp<TextStyle>;
+  captionContainerStyle?: StyleProp<ViewStyle>;
+  closedCaptionsIconPath?: ImageURISource | number;
+  playbackRates?: number[];
+  settingsButton?: boolean;
+  settingsIconPath?: ImageURISource | number;
+  renderError?: (params: ErrorViewParams) => React.ReactNode;
+  doubleTapToSeek?: boolean;
+  doubleTapSeekStep?: number;
+  swipeToChangeVolume?: boolean;
+  panToScrub?: boolean;
+  previewThumbnailWidth?: number;
+  abRepeatButton?: boolean;
+  volumeSlider?: boolean;
+  preload?: boolean;
+  title?: string;
+  posterDuration?: number;
+  bufferConfig?: BufferConfig | BufferPreset;
   playIconPath?: ImageURISource | number;
   pauseIconPath?: ImageURISource | number;
   muteIconPath?: ImageURISource | number;
   audioIconPath?: ImageURISource | number;
-  controls?: boolean;
-  autoplay?: boolean;
-  height?: number;
   seekBarThumbSize?: number;
   seekBarThumbColor?: string;
   loaderColor?: string;
   wantFullScreen?: boolean;
-  textStyle?: StyleProp<ViewStyle>;
-  rootElementRef?: RefObject<View>;
-  rootViewBgColor?: string;
+  textStyle?: StyleProp<TextStyle>;
   forwardBackwardButtons?: boolean;
   forward10secsImagePath?: ImageURISource | number;
   backward10secsImagePath?: ImageURISource | number;
-  thumbnailPath?: string;
-  scrollViewRef?: RefObject<ScrollView>;
-  androidPaddingVertical?: number;
-};
-
-type VolumeStateProps = {
-  isMute: boolean;
-  volume: number | null;
+  renderControls?: (player: VideoPlayerState) => React.ReactNode;
+  theme?: VideoPlayerThemeOverrides;
 };
 
-type ScreenDimensionsObject = {
-  screenHeight: number;
-  screenWidth: number;
+/**
+ * @description Imperative handle exposed through the ref of the VideoPlayer, every method goes through
+ * the same state paths as the built-in controls so the UI always reflects the calls made on the handle
+ */
+export type VideoPlayerHandle = {
+  play: () => void;
+  pause: () => void;
+  togglePlay: () => void;
+  seek: (seconds: number) => void;
+  seekBy: (delta: number) => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  setMuted: (muted: boolean) => void;
+  enterFullScreen: () => void;
+  exitFullScreen: () => void;
+  retry: () => void;
+  next: () => void;
+  previous: () => void;
+  playItem: (index: number) => void;
+  nextChapter: () => void;
+  previousChapter: () => void;
+  handleKey: (key: string | number, focusNavigation?: boolean) => boolean;
+  setABRepeat: (a: number, b: number) => void;
+  clearABRepeat: () => void;
 };
 
-export default function VideoPlayer(props: Props) {
+function VideoPlayer(props: Props, ref: ForwardedRef<VideoPlayerHandle>) {
   const {
-    autoplay,
-    height,
-    src,
     controls,
     playIconPath,
     pauseIconPath,
@@ -118,495 +268,295 @@ export default function VideoPlayer(props: Props) {
     wantFullScreen,
     textStyle,
     seekBarThumbColor,
-    rootElementRef,
     rootViewBgColor,
     forward10secsImagePath,
     backward10secsImagePath,
-    thumbnailPath,
-    scrollViewRef,
-    androidPaddingVertical,
+    nextIconPath,
+    previousIconPath,
+    captionStyle,
+    captionContainerStyle,
+    closedCaptionsIconPath,
+    settingsIconPath,
   } = props;
 
-  const forwardBackwardButtons = props.forwardBackwardButtons ?? true;
-  const seekBarThumbSize: number = props.seekBarThumbSize ?? 18;
-  const loaderColor: string = props.loaderColor ?? '#0095ff';
-
-  const playerRef = useRef<Video>(null);
-  const playerContainerRef = useRef<View>(null);
-  const [screenDimensions, setScreenDimensions] =
-    useState<ScreenDimensionsObject>({
-      screenHeight: height ?? 300,
-      screenWidth: width,
-    });
-  const [isRetry, setIsRetry] = useState(false);
-  const [isStatusBarHidden, setIsStatusBarHidden] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isFullScreen, setIsFullScreen] = useState(false);
-  const [isPlaying, setIsPlaying] = useState<boolean>(autoplay ?? true);
-  const [isVideoReady, setisVideaoReady] = useState(false);
-  const [videoDuration, setVideoDuration] = useState<number>(0);
-  const [videoSeek, setVideoSeek] = useState<number>(0);
-  const [showControls, setShowControls] = useState<boolean>(false);
-  const [isSeekBarBusy, setIsSeekBarBusy] = useState<boolean>(false);
-  const [systemVolume, setSystemVolume] = useState<number | null>(null);
-  const [volumeState, setVolumeState] = useState<VolumeStateProps>({
-    isMute: false,
-    volume: null,
-  });
-
-  const {isMute, volume} = volumeState;
-  const {screenHeight, screenWidth} = screenDimensions;
-
-  const onVideoError = (err: LoadError) => {
-    setIsRetry(true);
-  };
-
-  let hideControlsTimer = useRef<any>(null);
-
-  useEffect(() => {
-    let isActive = true;
-    SystemSetting.getVolume().then(volume => {
-      if (isActive) {
-        setSystemVolume(volume);
-        setVolumeState({...volumeState, volume: volume});
-      }
-    });
-    const volumeListener = SystemSetting.addVolumeListener(data => {
-      const volume = data.value;
-      setVolumeState({...volumeState, volume: volume});
-    });
-    const unsubscribeDimensions = Dimensions.addEventListener('change', e => {
-      const {width, height} = e.screen;
-      let finalHeight = height;
-      let finalWidth = width;
-      if (height > width) {
-        finalHeight = props.height ?? 300;
-        let rootStyle: {backgroundColor: string; paddingVertical?: number} = {
-          backgroundColor: rootViewBgColor ?? '#fff',
-        };
-        if (Platform.OS === 'android') {
-          rootStyle.paddingVertical = androidPaddingVertical ?? 48;
-        }
-        rootElementRef?.current?.setNativeProps({
-          style: rootStyle,
-        });
-        scrollViewRef?.current?.setNativeProps({
-          scrollEnabled: true,
-        });
-      } else {
-        //fix for the issue when screen content is less that the full screen height then video player height reduces
-        scrollViewRef?.current?.setNativeProps({
-          contentContainerStyle: {
-            flex: 1,
-          },
-          scrollEnabled: false,
-        });
-        scrollViewRef?.current?.scrollTo({x: 0, y: 0, animated: false});
-        let rootStyle: {backgroundColor: string; paddingVertical?: number} = {
-          backgroundColor: rootViewBgColor ?? '#000',
-        };
-        if (Platform.OS === 'android') {
-          rootStyle.paddingVertical = 0;
-        }
-        rootElementRef?.current?.setNativeProps({
-          style: rootStyle,
-        });
-        if (DeviceInfo.hasNotch()) {
-          finalWidth = width - 75;
-        }
-      }
-      if (isActive) {
-        setScreenDimensions({
-          screenWidth: finalWidth,
-          screenHeight: finalHeight,
-        });
-      }
-    });
-
-    return () => {
-      isActive = false;
-      SystemSetting.removeVolumeListener(volumeListener);
-      if (hideControlsTimer.current) {
-        clearTimeout(hideControlsTimer.current);
-      }
-      unsubscribeDimensions.remove();
-    };
-  }, []);
-
-  useFocusEffect(
-    React.useCallback(() => {
-      let isActive = true;
-
-      const getSystemVolume = async () => {
-        try {
-          SystemSetting.getVolume().then(volume => {
-            if (isActive) {
-              setVolumeState({...volumeState, volume: volume});
-            }
-          });
-        } catch (e) {}
-      };
-
-      getSystemVolume();
-
-      return () => {
-        isActive = false;
-      };
-    }, []),
+  const theme: VideoPlayerTheme = mergeTheme(
+    useVideoPlayerTheme(),
+    props.theme,
+    {
+      colors: {
+        seekBarThumb: seekBarThumbColor,
+        loader: props.loaderColor,
+        rootBackground: rootViewBgColor,
+      },
+      icons: {
+        play: playIconPath,
+        pause: pauseIconPath,
+        mute: muteIconPath,
+        audio: audioIconPath,
+        forward: forward10secsImagePath,
+        rewind: backward10secsImagePath,
+        next: nextIconPath,
+        previous: previousIconPath,
+        closedCaptions: closedCaptionsIconPath,
+        settings: settingsIconPath,
+      },
+      seekBar: {thumbSize: props.seekBarThumbSize},
+      textStyles: {time: textStyle},
+    },
   );
+  const {colors} = theme;
 
-  const handlePlayPause = () => {
-    if (videoSeek === 1) {
-      setVideoSeek(0);
-      playerRef.current?.seek(0);
-      setTimeout(() => {
-        setIsPlaying(true);
-      }, 100);
-      return;
-    }
-    setIsPlaying(!isPlaying);
-  };
-
-  const handleFullScreen = () => {
-    if (isFullScreen) {
-      Immersive.off();
-      setIsFullScreen(false);
-      setIsStatusBarHidden(false);
-      setTimeout(() => {
-        Orientation.lockToPortrait();
-      }, 100);
-    } else {
-      setIsFullScreen(true);
-      Orientation.lockToLandscape();
-      setIsStatusBarHidden(true);
-      Immersive.on();
-    }
-  };
-
-  const onProgress = (data: OnProgressData) => {
-    if (isLoading) {
-      setIsLoading(false);
-    }
-    if (!isSeekBarBusy) {
-      setVideoSeek(data.currentTime / data.seekableDuration);
-    }
-  };
-
-  const onEnd = () => {
-    setVideoSeek(1);
-    setIsPlaying(false);
-  };
-
-  let justClicked = false;
-  const videoAreaClicked = () => {
-    if (controls) {
-      if (!justClicked) {
-        justClicked = true;
-        if (showControls === false) {
-          setShowControls(true);
-          if (hideControlsTimer.current)
-            clearTimeout(hideControlsTimer.current);
-          hideControlsTimer.current = setTimeout(() => {
-            setShowControls(false);
-          }, 3000);
-        } else {
-          setShowControls(false);
-        }
-        justClicked = false;
-      }
-    }
-  };
-
-  const onSeekBarChange = (val: number | number[]) => {
-    if (typeof val === 'object') {
-      playerRef.current?.seek(val[0] * videoDuration);
-      setVideoSeek(val[0]);
-    }
-  };
-
-  const onLoad = (data: OnLoadData) => {
-    setVideoDuration(data.duration);
-    if (playerRef.current) playerRef.current.seek(0);
-  };
-
-  const onTouchStart = (event: GestureResponderEvent) => {
-    if (hideControlsTimer.current) {
-      if (controls) clearTimeout(hideControlsTimer.current);
-    }
-  };
-
-  const onTouchEnd = (event: GestureResponderEvent) => {
-    if (controls) {
-      hideControlsTimer.current = setTimeout(() => {
-        setShowControls(false);
-      }, 3000);
-    }
-  };
-
-  const onSeekBarSlidingStart = (val: number | number[]) => {
-    setIsSeekBarBusy(true);
-  };
-
-  const onSeekBarSlidingEnd = (val: number | number[]) => {
-    setIsSeekBarBusy(false);
-  };
-
-  const seekForward = () => {
-    let newCurrentTime = videoSeek * videoDuration + 10;
-    let newCurrentSeekValue = newCurrentTime / videoDuration;
-    if (newCurrentTime > videoDuration) {
-      newCurrentTime = videoDuration;
-      newCurrentSeekValue = videoDuration;
-    }
-    playerRef.current?.seek(newCurrentTime);
-    setVideoSeek(newCurrentSeekValue);
-  };
-
-  const seekBackward = () => {
-    let newCurrentTime = videoSeek * videoDuration - 10;
-    let newCurrentSeekValue = newCurrentTime / videoDuration;
-    if (newCurrentTime < 0) {
-      newCurrentTime = 0;
-      newCurrentSeekValue = 0;
-    }
-    playerRef.current?.seek(newCurrentTime);
-    setVideoSeek(newCurrentSeekValue);
-  };
-
-  const toggleMuteButton = () => {
-    if (!isMute) {
-      setVolumeState({...volumeState, isMute: !volumeState.isMute, volume: 0});
-    } else {
-      setVolumeState({
-        ...volumeState,
-        isMute: !volumeState.isMute,
-        volume: systemVolume,
-      });
-    }
-  };
-
-  const onReady = () => {
-    setisVideaoReady(true);
-    setShowControls(true);
-    hideControlsTimer.current = setTimeout(() => {
-      setShowControls(false);
-    }, 3000);
-  };
-
-  const onBuffer = (data: OnBufferData) => {
-    if (
-      (data.isBuffering && !isLoading) ||
-      (!data.isBuffering && isLoading && isVideoReady)
-    ) {
-      setIsLoading(true);
-    }
-  };
-
-  const msToTime = (seconds: number) => {
-    let minutes: number = Math.floor(seconds / 60),
-      hours: number = Math.floor((seconds / (60 * 60)) % 24);
-    let finalTime: string = '';
-    if (hours > 0) {
-      finalTime = (hours < 10 ? '0' + hours : hours.toString()) + ':';
-    }
-    if (minutes <= 0) {
-      finalTime += '00:';
-    } else if (minutes > 0) {
-      finalTime += (minutes < 10 ? '0' + minutes : minutes.toString()) + ':';
-    }
-    let sec = seconds % 60;
-    finalTime +=
-      parseInt(sec.toFixed(0)) < 10
-        ? '0' + sec.toFixed(0)
-        : sec.toFixed(0).toString();
-    return finalTime;
-  };
+  const player = useVideoPlayer({
+    ...props,
+    rootViewBgColor: colors.rootBackground,
+  });
+  const {
+    screenWidth,
+    screenHeight,
+    duration,
+    currentTime,
+    showControls,
+    captionCues,
+  } = player;
 
-  const onRetryClick = () => {
-    setIsRetry(false);
-  };
+  const playerContainerRef = useRef<View>(null);
 
-  if (isRetry) {
-    return (
-      <View
-        style={{
-          height: screenHeight,
-          width: screenWidth,
-          backgroundColor: '#000',
-        }}>
-        <TouchableOpacity
+  useImperativeHandle(ref, () => ({
+    play: player.play,
+    pause: player.pause,
+    togglePlay: player.togglePlay,
+    seek: (seconds: number) => player.seekTo(seconds),
+    seekBy: player.seekBy,
+    getCurrentTime: () => currentTime,
+    getDuration: () => duration,
+    setMuted: player.setMuted,
+    enterFullScreen: () => {
+      if (!player.isFullScreen) player.toggleFullScreen();
+    },
+    exitFullScreen: () => {
+      if (player.isFullScreen) player.toggleFullScreen();
+    },
+    retry: player.retry,
+    next: player.next,
+    previous: player.previous,
+    playItem: player.playItem,
+    nextChapter: player.nextChapter,
+    previousChapter: player.previousChapter,
+    handleKey: player.handleKey,
+    setABRepeat: player.setABRepeat,
+    clearABRepeat: player.clearABRepeat,
+  }));
+
+  const controlBarHeight = getControlBarHeight(theme, player.isFullScreen);
+  const isModalFullScreen =
+    player.isFullScreen && player.fullScreenMode === 'modal';
+
+  const content = player.hasError ? (
+    <ErrorView renderError={props.renderError} />
+  ) : (
+    <View
+      ref={playerContainerRef}
+      style={[
+        {elevation: 1, zIndex: 2},
+        player.isFullScreen &&
+          player.fullScreenMode === 'legacy' && {position: 'absolute'},
+      ]}>
+      <StatusBar hidden={player.isStatusBarHidden} />
+      {player.isLoading && (
+        <ActivityIndicator
+          size="large"
+          accessibilityLabel={player.labels.buffering}
+          color={colors.loader}
           style={[styles.centerInView, {marginTop: screenHeight / 2.2}]}
-          onPress={onRetryClick}>
-          <Image
-            source={retry}
-            style={{height: 64, width: 64, tintColor: '#fff'}}
-            resizeMode="contain"
-          />
-        </TouchableOpacity>
-      </View>
-    );
-  } else
-    return (
-      <View
-        ref={playerContainerRef}
-        style={[
-          {elevation: 1, zIndex: 2},
-          isFullScreen && {position: 'absolute'},
-        ]}>
-        <StatusBar hidden={isStatusBarHidden} />
-        {isLoading && (
-          <ActivityIndicator
-            size="large"
-            color={loaderColor}
-            style={[styles.centerInView, {marginTop: screenHeight / 2.2}]}
-          />
-        )}
-        <TouchableWithoutFeedback onPress={videoAreaClicked} style={{}}>
+        />
+      )}
+      <GestureArea
+        doubleTapToSeek={props.doubleTapToSeek}
+        doubleTapSeekStep={props.doubleTapSeekStep}
+        swipeToChangeVolume={props.swipeToChangeVolume}
+        panToScrub={props.panToScrub}
+        previewThumbnailWidth={props.previewThumbnailWidth}>
+        {(!player.isPosterShown || props.preload) &&
+        !player.isSourceDeferred ? (
           <Video
-            source={src}
-            ref={playerRef}
-            onLoad={onLoad}
-            onReadyForDisplay={onReady}
-            paused={!isPlaying}
-            muted={isMute}
-            volume={volume ?? 0}
-            onProgress={onProgress}
-            onEnd={onEnd}
-            bufferConfig={{
-              minBufferMs: 1500,
-              maxBufferMs: 2000,
-              bufferForPlaybackMs: 1200,
-              bufferForPlaybackAfterRebufferMs: 1200,
-            }}
-            onBuffer={onBuffer}
-            onError={onVideoError}
+            {...player.videoProps}
+            bufferConfig={getBufferConfig(props.bufferConfig)}
             mixWithOthers="duck"
             resizeMode="stretch"
             style={{
               width: screenWidth,
               height: screenHeight,
             }}
-            poster={thumbnailPath}
             posterResizeMode="cover"
           />
-        </TouchableWithoutFeedback>
-        {controls && showControls && (
-          <>
-            <View
-              style={{
-                position: 'absolute',
-                alignSelf: 'center',
-                top: screenHeight / 2.2,
-              }}>
-              <View style={{flexDirection: 'row'}}>
-                {forwardBackwardButtons && (
-                  <TouchableOpacity onPress={seekBackward}>
-                    <Image
-                      source={backward10secsImagePath ?? rewind}
-                      style={styles.mediaControlIconsCenterStyle}
-                      resizeMode="cover"
-                    />
-                  </TouchableOpacity>
-                )}
+        ) : (
+          <View style={{width: screenWidth, height: screenHeight}} />
+        )}
+      </GestureArea>
+      {captionCues.length > 0 && !player.ad && (
+        <CaptionOverlay
+          cues={getActiveCues(captionCues, currentTime)}
+          height={screenHeight}
+          bottomOffset={controls && showControls ? controlBarHeight + 8 : 16}
+          captionStyle={captionStyle}
+          captionContainerStyle={captionContainerStyle}
+        />
+      )}
+      <SyncPauseBanner />
+      {player.ad ? (
+        <AdOverlay />
+      ) : (
+        controls &&
+        (props.renderControls ? (
+          props.renderControls(player)
+        ) : (
+          <ControlsOverlay
+            forwardBackwardButtons={props.forwardBackwardButtons}
+            settingsButton={props.settingsButton}
+            fullScreenButton={wantFullScreen}
+            playbackRates={props.playbackRates}
+            previewThumbnailWidth={props.previewThumbnailWidth}
+            abRepeatButton={props.abRepeatButton}
+            volumeSlider={props.volumeSlider}
+          />
+        ))
+      )}
+      {player.isPosterShown && (
+        <LazyPoster title={props.title} duration={props.posterDuration} />
+      )}
+      <ResumePrompt />
+      <UpNextOverlay />
+    </View>
+  );
 
-                <TouchableOpacity
-                  onPress={handlePlayPause}
-                  style={{marginHorizontal: 32, elevation: 6, zIndex: 3}}>
-                  {isPlaying ? (
-                    <Image
-                      source={pauseIconPath ?? pause}
-                      style={styles.mediaControlIconsCenterStyle}
-                      resizeMode="cover"
-                    />
-                  ) : (
-                    <Image
-                      source={playIconPath ?? play}
-                      style={styles.mediaControlIconsCenterStyle}
-                      resizeMode="cover"
-                    />
-                  )}
-                </TouchableOpacity>
-                {forwardBackwardButtons && (
-                  <TouchableOpacity onPress={seekForward}>
-                    <Image
-                      source={forward10secsImagePath ?? forward}
-                      style={styles.mediaControlIconsCenterStyle}
-                      resizeMode="cover"
-                    />
-                  </TouchableOpacity>
-                )}
-              </View>
-            </View>
+  return (
+    <VideoPlayerThemeContext.Provider value={theme}>
+      <VideoPlayerContext.Provider value={player}>
+        {isModalFullScreen ? (
+          <>
             <View
-              style={[
-                styles.mediaControlsView,
-                Platform.OS === 'ios' &&
-                  isFullScreen && {height: 60, marginRight: 16},
-                Platform.OS === 'android' && isFullScreen && {right: 104},
+              style={{height: props.height ?? 300, backgroundColor: '#000'}}
+            />
+            <Modal
+              visible
+              animationType="fade"
+              statusBarTranslucent
+              supportedOrientations={[
+                'portrait',
+                'landscape',
+                'landscape-left',
+                'landscape-right',
               ]}
-              onTouchStart={onTouchStart}
-              onTouchEnd={onTouchEnd}>
-              <View style={styles.rowWithAlignCenter}>
-                <Text style={textStyle ?? {color: '#fff'}}>
-                  {msToTime(videoSeek * videoDuration)}
-                </Text>
-                <Slider
-                  value={videoSeek}
-                  minimumTrackTintColor={'#fff'}
-                  maximumTrackTintColor={'rgba(255,255,255,0.6)'}
-                  onValueChange={onSeekBarChange}
-                  onSlidingStart={onSeekBarSlidingStart}
-                  onSlidingComplete={onSeekBarSlidingEnd}
-                  thumbTintColor={seekBarThumbColor ?? '#fff'}
-                  thumbStyle={{
-                    width: seekBarThumbSize,
-                    height: seekBarThumbSize,
-                    borderRadius: seekBarThumbSize / 2,
-                  }}
-                  containerStyle={{
+              onRequestClose={player.toggleFullScreen}>
+              <SafeAreaProvider>
+                <SafeAreaView
+                  style={{
                     flex: 1,
-                    marginHorizontal: 8,
-                  }}
-                />
-                <TouchableOpacity
-                  onPress={toggleMuteButton}
-                  style={{marginRight: 8}}>
-                  {isMute ? (
-                    <Image
-                      source={muteIconPath ?? mute}
-                      style={styles.mediaControlIconsStyle}
-                      resizeMode="cover"
-                    />
-                  ) : (
-                    <Image
-                      source={audioIconPath ?? audio}
-                      style={styles.mediaControlIconsStyle}
-                      resizeMode="cover"
-                    />
-                  )}
-                </TouchableOpacity>
-                <Text style={textStyle ?? {marginRight: 12, color: '#fff'}}>
-                  {msToTime(videoDuration)}
-                </Text>
-                {(wantFullScreen ?? true) && (
-                  <TouchableOpacity onPress={handleFullScreen}>
-                    {isFullScreen ? (
-                      <Image
-                        source={exitFullscreen}
-                        style={styles.mediaControlIconsStyle}
-                      />
-                    ) : (
-                      <Image
-                        source={fullScreen}
-                        style={styles.mediaControlIconsStyle}
-                      />
-                    )}
-                  </TouchableOpacity>
-                )}
-              </View>
-            </View>
+                    backgroundColor: colors.rootBackground ?? '#000',
+                  }}>
+                  <View
+                    style={{flex: 1}}
+                    onLayout={e =>
+                      player.setFullScreenSize({
+                        width: e.nativeEvent.layout.width,
+                        height: e.nativeEvent.layout.height,
+                      })
+                    }>
+                    {content}
+                  </View>
+                </SafeAreaView>
+              </SafeAreaProvider>
+            </Modal>
           </>
+        ) : (
+          content
         )}
-      </View>
-    );
+      </VideoPlayerContext.Provider>
+    </VideoPlayerThemeContext.Provider>
+  );
 }
+
+export {
+  defaultTheme,
+  useVideoPlayerTheme,
+  VideoPlayerThemeProvider,
+} from './theme';
+export type {VideoPlayerTheme, VideoPlayerThemeOverrides} from './theme';
+export {defaultLabels} from './accessibility';
+export type {VideoPlayerLabels} from './accessibility';
+export {defaultStrings, translations} from './strings';
+export type {VideoPlayerStringOverrides, VideoPlayerStrings} from './strings';
+export {msToTime} from './time';
+export type {TimeFormatter} from './time';
+export {defaultKeyMap, getKeyCommand} from './keyboard';
+export type {KeyCommand, KeyMap} from './keyboard';
+export type {LiveMode, LiveWindow} from './live';
+export type {ABRepeat, ClipRange} from './clip';
+export {parseVmap, resolveVastAds} from './ads';
+export type {
+  AdBreak,
+  AdHttp,
+  AdPlayback,
+  AdsConfig,
+  AdTrackingEvent,
+  VastAd,
+} from './ads';
+export {
+  createBatchingReporter,
+  createConsoleReporter,
+  createPlaybackSession,
+} from './analytics';
+export type {
+  AnalyticsEvent,
+  AnalyticsPayload,
+  AnalyticsReporter,
+  SessionSummary,
+} from './analytics';
+export type {VideoSource, VideoSourceInput} from './sources';
+export {BUFFER_PRESETS, DEFAULT_BUFFER_CONFIG} from './buffer';
+export type {BufferConfig, BufferPreset} from './buffer';
+export {getInitialVolumeState, volumeReducer} from './volume';
+export type {VolumeAction, VolumeState} from './volume';
+export {
+  createLoopbackHub,
+  createSyncController,
+  createWebSocketTransport,
+} from './sync';
+export type {
+  SyncAction,
+  SyncController,
+  SyncMessage,
+  SyncPlaybackState,
+  SyncTransport,
+} from './sync';
+export {createPlayerFeed} from './feed';
+export type {FeedPlayerControls, PlayerFeed, PlayerFeedOptions} from './feed';
+export {
+  default as VideoPlayerProvider,
+  useVideoPlayerFeed,
+} from './VideoPlayerProvider';
+export {default as useVideoPlayer, VideoPlayerContext} from './useVideoPlayer';
+export type {
+  FullScreenMode,
+  FullScreenOrientation,
+  UseVideoPlayerOptions,
+  VideoPlayerState,
+} from './useVideoPlayer';
+export {default as PlayPauseButton} from './PlayPauseButton';
+export {default as SeekBar} from './SeekBar';
+export {default as TimeLabel} from './TimeLabel';
+export {default as MuteButton} from './MuteButton';
+export {default as FullScreenButton} from './FullScreenButton';
+export {default as LiveBadge} from './LiveBadge';
+export {default as AdOverlay} from './AdOverlay';
+export {default as VolumeSlider} from './VolumeSlider';
+export {default as LazyPoster} from './LazyPoster';
+export {default as ControlsOverlay} from './ControlsOverlay';
+export {default as GestureArea} from './GestureArea';
+export {default as ErrorView} from './ErrorView';
+export type {ErrorViewParams} from './ErrorView';
+export {default as ResumePrompt} from './ResumePrompt';
+export {default as UpNextOverlay} from './UpNextOverlay';
+export {default as SyncPauseBanner} from './SyncPauseBanner';
+
+export default forwardRef(VideoPlayer);
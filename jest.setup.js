@@ -0,0 +1,29 @@
+//native modules the tests can not load, the player is tested without a device
+jest.mock('react-native-video', () => 'Video');
+jest.mock('react-native-orientation', () => ({
+  lockToPortrait: jest.fn(),
+  lockToLandscape: jest.fn(),
+  unlockAllOrientations: jest.fn(),
+  addSpecificOrientationListener: jest.fn(),
+  removeSpecificOrientationListener: jest.fn(),
+}));
+jest.mock('react-native-system-setting', () => ({
+  getVolume: jest.fn(() => Promise.resolve(1)),
+  setVolume: jest.fn(),
+  addVolumeListener: jest.fn(),
+  removeVolumeListener: jest.fn(),
+}));
+jest.mock('react-native-immersive', () => ({
+  Immersive: {on: jest.fn(), off: jest.fn()},
+}));
+jest.mock('react-native-device-info', () => ({
+  hasNotch: jest.fn(() => false),
+}));
+jest.mock('@react-navigation/core', () => ({
+  useFocusEffect: jest.fn(),
+}));
+
+//the AccessibilityInfo mock of react native returns no subscription to remove
+require('react-native').AccessibilityInfo.addEventListener.mockImplementation(
+  () => ({remove: jest.fn()}),
+);
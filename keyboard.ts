@@ -0,0 +1,143 @@
+export type KeyCommand =
+  | 'togglePlay'
+  | 'play'
+  | 'pause'
+  | 'seekBackward'
+  | 'seekForward'
+  | 'toggleMute'
+  | 'toggleFullScreen'
+  | 'next'
+  | 'previous'
+  | 'showControls';
+
+/**
+ * @description key names to commands, keys use the names of KeyboardEvent.key, a null command turns a
+ * default key off
+ */
+export type KeyMap = Record<string, KeyCommand | null>;
+
+export const KEY_SEEK_STEP = 10;
+
+export const defaultKeyMap: KeyMap = {
+  ' ': 'togglePlay',
+  k: 'togglePlay',
+  ArrowLeft: 'seekBackward',
+  j: 'seekBackward',
+  ArrowRight: 'seekForward',
+  l: 'seekForward',
+  ArrowUp: 'showControls',
+  ArrowDown: 'showControls',
+  Enter: 'showControls',
+  m: 'toggleMute',
+  f: 'toggleFullScreen',
+  MediaPlayPause: 'togglePlay',
+  MediaPlay: 'play',
+  MediaPause: 'pause',
+  MediaRewind: 'seekBackward',
+  MediaFastForward: 'seekForward',
+  MediaTrackNext: 'next',
+  MediaTrackPrevious: 'previous',
+  AudioVolumeMute: 'toggleMute',
+};
+
+//names used by the TV event handler of react-native-tvos and by older browsers
+const KEY_ALIASES: Record<string, string> = {
+  Spacebar: ' ',
+  space: ' ',
+  left: 'ArrowLeft',
+  right: 'ArrowRight',
+  up: 'ArrowUp',
+  down: 'ArrowDown',
+  select: 'Enter',
+  playPause: 'MediaPlayPause',
+  play: 'MediaPlay',
+  pause: 'MediaPause',
+  rewind: 'MediaRewind',
+  fastForward: 'MediaFastForward',
+  Left: 'ArrowLeft',
+  Right: 'ArrowRight',
+  Up: 'ArrowUp',
+  Down: 'ArrowDown',
+};
+
+//android KeyEvent codes, as delivered by key event modules like react-native-keyevent
+const ANDROID_KEY_CODES: Record<number, string> = {
+  19: 'ArrowUp',
+  20: 'ArrowDown',
+  21: 'ArrowLeft',
+  22: 'ArrowRight',
+  23: 'Enter',
+  62: ' ',
+  66: 'Enter',
+  85: 'MediaPlayPause',
+  87: 'MediaTrackNext',
+  88: 'MediaTrackPrevious',
+  89: 'MediaRewind',
+  90: 'MediaFastForward',
+  91: 'AudioVolumeMute',
+  126: 'MediaPlay',
+  127: 'MediaPause',
+  164: 'AudioVolumeMute',
+};
+
+const FOCUS_NAVIGATION_KEYS = [
+  'ArrowLeft',
+  'ArrowRight',
+  'ArrowUp',
+  'ArrowDown',
+  'Enter',
+];
+
+/**
+ * @description turns a key name, a TV remote event type or an android key code into a KeyboardEvent.key name,
+ * letters are lower cased so that the key map does not depend on caps lock
+ */
+export const normalizeKey = (key: string | number): string => {
+  if (typeof key === 'number') {
+    //KEYCODE_A to KEYCODE_Z
+    if (key >= 29 && key <= 54) {
+      return String.fromCharCode(key - 29 + 97);
+    }
+    return ANDROID_KEY_CODES[key] ?? `${key}`;
+  }
+  if (key.length === 1) {
+    return key.toLowerCase();
+  }
+  return KEY_ALIASES[key] ?? key;
+};
+
+export const mergeKeyMap = (keyMap?: KeyMap): KeyMap => {
+  const merged: KeyMap = {...defaultKeyMap};
+  Object.keys(keyMap ?? {}).forEach(key => {
+    merged[normalizeKey(key)] = keyMap![key];
+  });
+  return merged;
+};
+
+/**
+ * @description command for a key press, null when the key does nothing. With focus navigation, the way TV remotes work,
+ * the arrows and select move between and press the focused controls while they are shown and only act on the
+ * video while the controls are hidden
+ * @param {string | number} key - KeyboardEvent.key name, TV remote event type or android key code
+ * @param {KeyMap} keyMap - merged key map, see mergeKeyMap
+ * @param {boolean} focusNavigation - whether the key comes from a remote that moves the focus
+ * @param {boolean} showControls - whether the controls are shown
+ */
+export const getKeyCommand = (
+  key: string | number,
+  keyMap: KeyMap,
+  focusNavigation: boolean,
+  showControls: boolean,
+): KeyCommand | null => {
+  const name = normalizeKey(key);
+  if (focusNavigation && FOCUS_NAVIGATION_KEYS.includes(name)) {
+    if (showControls) {
+      return null;
+    }
+    //the first press of a remote only brings the controls up, except for seeking
+    return keyMap[name] === 'seekBackward' || keyMap[name] === 'seekForward'
+      ? keyMap[name]
+      : 'showControls';
+  }
+  return keyMap[name] ?? null;
+};
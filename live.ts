@@ -0,0 +1,86 @@
+/**
+ * @description auto detects live streams, live and dvr force a live stream without or with seeking
+ * and off always treats the video as on demand
+ */
+export type LiveMode = 'auto' | 'live' | 'dvr' | 'off';
+
+/**
+ * @description part of a live stream that can be seeked to, in seconds, end is the live edge
+ */
+export type LiveWindow = {
+  start: number;
+  end: number;
+};
+
+//seconds the seekable end has to grow past the loaded duration before a stream counts as live
+const LIVE_GROWTH_THRESHOLD = 5;
+//live streams with a shorter seekable window only hold the last few segments, they can not be seeked
+export const MIN_DVR_WINDOW = 60;
+export const DEFAULT_LIVE_EDGE_TOLERANCE = 10;
+
+/**
+ * @description live HLS streams load with an infinite or unknown duration, some players report the
+ * duration of the first playlist instead and let the seekable end grow from there
+ */
+export const isLiveStream = (
+  loadedDuration: number,
+  seekableDuration?: number,
+) => {
+  if (!Number.isFinite(loadedDuration)) {
+    return true;
+  }
+  return (
+    seekableDuration !== undefined &&
+    loadedDuration > 0 &&
+    seekableDuration > loadedDuration + LIVE_GROWTH_THRESHOLD
+  );
+};
+
+/**
+ * @description seekable window of a live stream, the player only reports where the window ends so the start
+ * is the end minus dvrWindow when it is known and the start of the stream otherwise
+ * @param {number} seekableEnd - seekableDuration of the last progress event
+ * @param {number} dvrWindow - length of the dvr window of the stream in seconds
+ */
+export const getLiveWindow = (
+  seekableEnd: number,
+  dvrWindow?: number,
+): LiveWindow => ({
+  start: dvrWindow !== undefined ? Math.max(seekableEnd - dvrWindow, 0) : 0,
+  end: seekableEnd,
+});
+
+export const isDvrWindow = (window: LiveWindow) =>
+  window.end - window.start >= MIN_DVR_WINDOW;
+
+/**
+ * @description seconds the playback is behind the live edge
+ */
+export const getLiveLatency = (currentTime: number, window: LiveWindow) =>
+  Math.max(window.end - currentTime, 0);
+
+/**
+ * @description position of the seek bar, the whole bar is the dvr window for live streams
+ */
+export const getSeekRatio = (
+  currentTime: number,
+  duration: number,
+  window: LiveWindow | null,
+) => {
+  const start = window?.start ?? 0;
+  const length = (window?.end ?? duration) - start;
+  return length > 0
+    ? Math.min(Math.max((currentTime - start) / length, 0), 1)
+    : 0;
+};
+
+export const getSeekTime = (
+  ratio: number,
+  duration: number,
+  window: LiveWindow | null,
+) => {
+  if (!window) {
+    return ratio * duration;
+  }
+  return window.start + ratio * (window.end - window.start);
+};
@@ -0,0 +1,62 @@
+import {TextTrack} from './captions';
+import {ThumbnailTrack} from './thumbnails';
+import {Chapter, ChaptersTrack, Marker} from './chapters';
+import {VideoSourceInput} from './sources';
+
+/**
+ * @description single entry of the playlist
+ * @param {object | number | array} src - source of the video file for this entry, or its candidates in the order to try them
+ * @param {string} title - title of the entry, shown in the up next overlay
+ * @param {string} thumbnailPath - string path of the thumbnail of this entry
+ * @param {TextTrack[]} textTracks - subtitle tracks of this entry, replace the textTracks of the player
+ * @param {string} resumeKey - key under which the playback position of this entry is saved, replaces the resumeKey of the player
+ * @param {ThumbnailTrack} previewThumbnails - seekbar preview frames of this entry, replace the previewThumbnails of the player
+ * @param {Chapter[]} chapters - chapters of this entry, replace the chapters of the player, same for chaptersTrack and markers
+ */
+export type PlaylistItem = {
+  src: VideoSourceInput;
+  title?: string;
+  thumbnailPath?: string;
+  textTracks?: TextTrack[];
+  resumeKey?: string;
+  previewThumbnails?: ThumbnailTrack;
+  chapters?: Chapter[];
+  chaptersTrack?: ChaptersTrack;
+  markers?: Marker[];
+};
+
+/**
+ * @description none - stops at the end of the playlist, one - repeats the current entry,
+ * all - starts the playlist again after the last entry
+ */
+export type LoopMode = 'none' | 'one' | 'all';
+
+/**
+ * @description returns the index of the entry to play after the current one has ended or the next
+ * button was pressed, or null when the playlist is over
+ */
+export const getNextIndex = (
+  index: number,
+  length: number,
+  loopMode: LoopMode,
+): number | null => {
+  if (index + 1 < length) {
+    return index + 1;
+  }
+  return loopMode === 'all' && length > 0 ? 0 : null;
+};
+
+/**
+ * @description returns the index of the entry to play when the previous button was pressed, or null
+ * when there is no previous entry
+ */
+export const getPreviousIndex = (
+  index: number,
+  length: number,
+  loopMode: LoopMode,
+): number | null => {
+  if (index > 0) {
+    return index - 1;
+  }
+  return loopMode === 'all' && length > 0 ? length - 1 : null;
+};
@@ -0,0 +1,27 @@
+/**
+ * @description storage of the playback positions used to resume videos, the positions are in seconds.
+ * Wrap AsyncStorage or any other persistent store to keep them across app launches
+ */
+export type PositionStorage = {
+  get: (key: string) => Promise<number | null>;
+  set: (key: string, position: number) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+};
+
+export const createMemoryStorage = (): PositionStorage => {
+  const positions = new Map<string, number>();
+  return {
+    get: async key => positions.get(key) ?? null,
+    set: async (key, position) => {
+      positions.set(key, position);
+    },
+    remove: async key => {
+      positions.delete(key);
+    },
+  };
+};
+
+/**
+ * @description default storage of the player, it is shared by all players and lives as long as the app process
+ */
+export const memoryStorage = createMemoryStorage();
@@ -0,0 +1,84 @@
+import {OnLoadData, VideoProperties} from 'react-native-video';
+
+export type SelectedVideoTrack = NonNullable<
+  VideoProperties['selectedVideoTrack']
+>;
+export type SelectedAudioTrack = NonNullable<
+  VideoProperties['selectedAudioTrack']
+>;
+export type VideoTrack = OnLoadData['videoTracks'][number];
+export type AudioTrack = OnLoadData['audioTracks'][number];
+
+export type SettingsOption<T> = {
+  label: string;
+  value: T;
+};
+
+export const DEFAULT_PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+export const AUTO_VIDEO_TRACK: SelectedVideoTrack = {type: 'auto'};
+export const SYSTEM_AUDIO_TRACK: SelectedAudioTrack = {type: 'system'};
+
+export const formatRate = (rate: number, normalLabel: string = 'Normal') =>
+  rate === 1 ? normalLabel : `${rate}x`;
+
+export const getRateOptions = (
+  rates: number[],
+  normalLabel?: string,
+): SettingsOption<number>[] => {
+  return rates.map(rate => ({
+    label: formatRate(rate, normalLabel),
+    value: rate,
+  }));
+};
+
+/**
+ * @description one option per distinct resolution of the HLS/DASH renditions, highest first, plus auto
+ * which lets the player pick the bitrate by itself
+ */
+export const getQualityOptions = (
+  videoTracks: VideoTrack[],
+  autoLabel: string = 'Auto',
+): SettingsOption<SelectedVideoTrack>[] => {
+  const heights = Array.from(
+    new Set(
+      videoTracks.map(track => track.height).filter(height => height > 0),
+    ),
+  ).sort((a, b) => b - a);
+  return [
+    {label: autoLabel, value: AUTO_VIDEO_TRACK},
+    ...heights.map(height => ({
+      label: `${height}p`,
+      value: {type: 'resolution', value: height} as SelectedVideoTrack,
+    })),
+  ];
+};
+
+export const getAudioOptions = (
+  audioTracks: AudioTrack[],
+  trackLabel: (position: number) => string = position => `Track ${position}`,
+): SettingsOption<SelectedAudioTrack>[] => {
+  return audioTracks.map((track, position) => ({
+    label: track.title || track.language || trackLabel(position + 1),
+    value: {type: 'index', value: track.index},
+  }));
+};
+
+export const isSameTrack = (
+  a: {type: string; value?: string | number},
+  b: {type: string; value?: string | number},
+) => a.type === b.type && a.value === b.value;
+
+/**
+ * @description label of the selected option, falls back to the given label when the selection is not
+ * one of the options, e.g. a controlled value the current source does not have
+ */
+export const getSelectedLabel = <
+  T extends {type: string; value?: string | number},
+>(
+  options: SettingsOption<T>[],
+  selected: T,
+  fallback: string,
+) =>
+  options.find(option => isSameTrack(option.value, selected))?.label ??
+  fallback;
@@ -0,0 +1,30 @@
+/**
+ * @description one source of a video, type is the format when the uri does not tell it e.g. m3u8 or mp4, headers are
+ * sent with every request of the source
+ */
+export type VideoSource = {
+  uri: string;
+  type?: string;
+  headers?: Record<string, string>;
+};
+
+/**
+ * @description a source, a required asset or the candidates to try one after the other, e.g. HLS first and
+ * progressive MP4s after it
+ */
+export type VideoSourceInput = VideoSource | number | (VideoSource | number)[];
+
+export const getSourceCandidates = (
+  src?: VideoSourceInput,
+): (VideoSource | number)[] => {
+  if (src === undefined) {
+    return [];
+  }
+  return Array.isArray(src) ? src : [src];
+};
+
+export const getSourceKey = (source?: VideoSource | number) =>
+  typeof source === 'number' ? source : source?.uri;
+
+//ms to wait for the first frame of a source before the next candidate is tried
+export const DEFAULT_SOURCE_STARTUP_TIMEOUT = 15000;
@@ -0,0 +1,285 @@
+import {defaultLabels, VideoPlayerLabels} from './accessibility';
+import {ERROR_MESSAGES, PlayerErrorType} from './errors';
+
+/**
+ * @description every text the player shows or reads out, the accessibility labels plus the texts of the menus,
+ * prompts and the error screen. Times are passed in already formatted
+ */
+export type VideoPlayerStrings = VideoPlayerLabels & {
+  captionsOff: string;
+  back: string;
+  playbackSpeed: string;
+  normalSpeed: string;
+  quality: string;
+  autoQuality: string;
+  audio: string;
+  defaultAudio: string;
+  audioTrack: (position: number) => string;
+  retrying: (attempt: number, maxAttempts: number) => string;
+  volume: (percentage: number) => string;
+  resumeFrom: (time: string) => string;
+  resume: string;
+  startOver: string;
+  upNextIn: (seconds: number) => string;
+  cancel: string;
+  playNow: string;
+  pausedBy: (name: string) => string;
+  //shown by the double tap to seek, with the seconds seeked so far
+  seekForwardIndicator: (seconds: number) => string;
+  seekBackwardIndicator: (seconds: number) => string;
+  //text of the A–B repeat button while only A is set and otherwise
+  abRepeatStartText: string;
+  abRepeatText: string;
+  errors: {[type in PlayerErrorType]: string};
+};
+
+/**
+ * @description strings to change, error messages can be passed one by one too
+ */
+export type VideoPlayerStringOverrides = Partial<
+  Omit<VideoPlayerStrings, 'errors'>
+> & {
+  errors?: Partial<VideoPlayerStrings['errors']>;
+};
+
+export const defaultStrings: VideoPlayerStrings = {
+  ...defaultLabels,
+  captionsOff: 'Off',
+  back: '\u2039 Back',
+  playbackSpeed: 'Playback speed',
+  normalSpeed: 'Normal',
+  quality: 'Quality',
+  autoQuality: 'Auto',
+  audio: 'Audio',
+  defaultAudio: 'Default',
+  audioTrack: position => `Track ${position}`,
+  retrying: (attempt, maxAttempts) =>
+    `Retrying (attempt ${attempt} of ${maxAttempts})...`,
+  volume: percentage => `Volume ${percentage}%`,
+  resumeFrom: time => `Resume from ${time}?`,
+  resume: 'Resume',
+  startOver: 'Start over',
+  upNextIn: seconds => `Up next in ${seconds}s`,
+  cancel: 'Cancel',
+  playNow: 'Play now',
+  pausedBy: name => `${name} paused`,
+  seekForwardIndicator: seconds => `+${seconds}s`,
+  seekBackwardIndicator: seconds => `-${seconds}s`,
+  abRepeatStartText: 'A\u2013',
+  abRepeatText: 'A\u2013B',
+  errors: ERROR_MESSAGES,
+};
+
+/**
+ * @description built in translations by language, pass the strings prop to change single texts or to add a language
+ */
+export const translations: Record<string, VideoPlayerStringOverrides> = {
+  es: {
+    play: 'Reproducir',
+    pause: 'Pausar',
+    rewind: 'Retroceder 10 segundos',
+    forward: 'Avanzar 10 segundos',
+    next: 'Vídeo siguiente',
+    previous: 'Vídeo anterior',
+    nextChapter: 'Capítulo siguiente',
+    previousChapter: 'Capítulo anterior',
+    mute: 'Silenciar',
+    unmute: 'Activar sonido',
+    enterFullScreen: 'Pantalla completa',
+    exitFullScreen: 'Salir de pantalla completa',
+    captions: 'Subtítulos',
+    settings: 'Ajustes',
+    retry: 'Reintentar',
+    seekBar: 'Barra de progreso',
+    seekBarValue: (position, duration) => `${position} de ${duration}`,
+    buffering: 'Cargando',
+    ended: 'Vídeo terminado',
+    live: 'En directo',
+    goLive: 'Ir al directo',
+    behindLive: time => `${time} por detrás del directo`,
+    ad: (remaining, position, count) =>
+      count > 1
+        ? `Anuncio ${position} de ${count} \u00b7 ${remaining}`
+        : `Anuncio \u00b7 ${remaining}`,
+    skipAd: 'Saltar anuncio',
+    skipAdIn: seconds => `Saltar en ${seconds}`,
+    abRepeat: 'Repetición A-B',
+    captionsOff: 'Desactivados',
+    back: '\u2039 Atrás',
+    playbackSpeed: 'Velocidad',
+    normalSpeed: 'Normal',
+    quality: 'Calidad',
+    autoQuality: 'Automática',
+    audio: 'Audio',
+    defaultAudio: 'Predeterminado',
+    audioTrack: position => `Pista ${position}`,
+    retrying: (attempt, maxAttempts) =>
+      `Reintentando (intento ${attempt} de ${maxAttempts})...`,
+    volume: percentage => `Volumen ${percentage}%`,
+    resumeFrom: time => `¿Continuar desde ${time}?`,
+    resume: 'Continuar',
+    startOver: 'Empezar de nuevo',
+    upNextIn: seconds => `A continuación en ${seconds}s`,
+    cancel: 'Cancelar',
+    playNow: 'Reproducir ya',
+    pausedBy: name => `${name} ha pausado`,
+    seekForwardIndicator: seconds => `+${seconds} s`,
+    seekBackwardIndicator: seconds => `-${seconds} s`,
+    errors: {
+      network: 'Comprueba tu conexión a internet e inténtalo de nuevo.',
+      unsupported:
+        'El formato de este vídeo no es compatible con tu dispositivo.',
+      decode: 'Este vídeo no se puede reproducir en tu dispositivo.',
+      forbidden: 'No tienes acceso a este vídeo.',
+      notFound: 'Este vídeo ya no está disponible.',
+      unknown: 'Se ha producido un error al reproducir este vídeo.',
+    },
+  },
+  fr: {
+    play: 'Lecture',
+    pause: 'Pause',
+    rewind: 'Reculer de 10 secondes',
+    forward: 'Avancer de 10 secondes',
+    next: 'Vidéo suivante',
+    previous: 'Vidéo précédente',
+    nextChapter: 'Chapitre suivant',
+    previousChapter: 'Chapitre précédent',
+    mute: 'Couper le son',
+    unmute: 'Activer le son',
+    enterFullScreen: 'Plein écran',
+    exitFullScreen: 'Quitter le plein écran',
+    captions: 'Sous-titres',
+    settings: 'Paramètres',
+    retry: 'Réessayer',
+    seekBar: 'Barre de progression',
+    seekBarValue: (position, duration) => `${position} sur ${duration}`,
+    buffering: 'Chargement',
+    ended: 'Vidéo terminée',
+    live: 'En direct',
+    goLive: 'Revenir au direct',
+    behindLive: time => `${time} de retard sur le direct`,
+    ad: (remaining, position, count) =>
+      count > 1
+        ? `Annonce ${position} sur ${count} \u00b7 ${remaining}`
+        : `Annonce \u00b7 ${remaining}`,
+    skipAd: "Ignorer l'annonce",
+    skipAdIn: seconds => `Ignorer dans ${seconds}`,
+    abRepeat: 'Répétition A-B',
+    captionsOff: 'Désactivés',
+    back: '\u2039 Retour',
+    playbackSpeed: 'Vitesse de lecture',
+    normalSpeed: 'Normale',
+    quality: 'Qualité',
+    autoQuality: 'Auto',
+    audio: 'Audio',
+    defaultAudio: 'Par défaut',
+    audioTrack: position => `Piste ${position}`,
+    retrying: (attempt, maxAttempts) =>
+      `Nouvelle tentative (${attempt} sur ${maxAttempts})...`,
+    volume: percentage => `Volume ${percentage} %`,
+    resumeFrom: time => `Reprendre à ${time} ?`,
+    resume: 'Reprendre',
+    startOver: 'Recommencer',
+    upNextIn: seconds => `À suivre dans ${seconds} s`,
+    cancel: 'Annuler',
+    playNow: 'Lire maintenant',
+    pausedBy: name => `${name} a mis en pause`,
+    seekForwardIndicator: seconds => `+${seconds} s`,
+    seekBackwardIndicator: seconds => `-${seconds} s`,
+    errors: {
+      network: 'Vérifiez votre connexion internet et réessayez.',
+      unsupported:
+        "Le format de cette vidéo n'est pas pris en charge sur votre appareil.",
+      decode: 'Cette vidéo ne peut pas être lue sur votre appareil.',
+      forbidden: "Vous n'avez pas accès à cette vidéo.",
+      notFound: "Cette vidéo n'est plus disponible.",
+      unknown: 'Une erreur est survenue pendant la lecture de cette vidéo.',
+    },
+  },
+  de: {
+    play: 'Abspielen',
+    pause: 'Pause',
+    rewind: '10 Sekunden zurück',
+    forward: '10 Sekunden vor',
+    next: 'Nächstes Video',
+    previous: 'Vorheriges Video',
+    nextChapter: 'Nächstes Kapitel',
+    previousChapter: 'Vorheriges Kapitel',
+    mute: 'Stummschalten',
+    unmute: 'Ton an',
+    enterFullScreen: 'Vollbild',
+    exitFullScreen: 'Vollbild beenden',
+    captions: 'Untertitel',
+    settings: 'Einstellungen',
+    retry: 'Erneut versuchen',
+    seekBar: 'Fortschrittsleiste',
+    seekBarValue: (position, duration) => `${position} von ${duration}`,
+    buffering: 'Wird geladen',
+    ended: 'Video beendet',
+    live: 'Live',
+    goLive: 'Zum Live-Bild',
+    behindLive: time => `${time} hinter Live`,
+    ad: (remaining, position, count) =>
+      count > 1
+        ? `Werbung ${position} von ${count} \u00b7 ${remaining}`
+        : `Werbung \u00b7 ${remaining}`,
+    skipAd: 'Werbung überspringen',
+    skipAdIn: seconds => `Überspringen in ${seconds}`,
+    abRepeat: 'A-B-Wiederholung',
+    captionsOff: 'Aus',
+    back: '\u2039 Zurück',
+    playbackSpeed: 'Wiedergabegeschwindigkeit',
+    normalSpeed: 'Normal',
+    quality: 'Qualität',
+    autoQuality: 'Automatisch',
+    audio: 'Audio',
+    defaultAudio: 'Standard',
+    audioTrack: position => `Spur ${position}`,
+    retrying: (attempt, maxAttempts) =>
+      `Neuer Versuch (${attempt} von ${maxAttempts})...`,
+    volume: percentage => `Lautstärke ${percentage} %`,
+    resumeFrom: time => `Ab ${time} fortsetzen?`,
+    resume: 'Fortsetzen',
+    startOver: 'Von vorne',
+    upNextIn: seconds => `Als Nächstes in ${seconds} s`,
+    cancel: 'Abbrechen',
+    playNow: 'Jetzt abspielen',
+    pausedBy: name => `${name} hat pausiert`,
+    seekForwardIndicator: seconds => `+${seconds} s`,
+    seekBackwardIndicator: seconds => `-${seconds} s`,
+    errors: {
+      network:
+        'Bitte überprüfe deine Internetverbindung und versuche es erneut.',
+      unsupported:
+        'Dieses Videoformat wird auf deinem Gerät nicht unterstützt.',
+      decode: 'Dieses Video kann auf deinem Gerät nicht abgespielt werden.',
+      forbidden: 'Du hast keinen Zugriff auf dieses Video.',
+      notFound: 'Dieses Video ist nicht mehr verfügbar.',
+      unknown: 'Beim Abspielen dieses Videos ist ein Fehler aufgetreten.',
+    },
+  },
+};
+
+/**
+ * @description strings for the locale, es-MX falls back to es and unknown languages to english. The
+ * overrides win over the translation, error messages can be overridden one by one
+ */
+export const getStrings = (
+  locale?: string,
+  overrides?: VideoPlayerStringOverrides,
+): VideoPlayerStrings => {
+  const translation =
+    (locale &&
+      (translations[locale] ?? translations[locale.split(/[-_]/)[0]])) ||
+    {};
+  return {
+    ...defaultStrings,
+    ...translation,
+    ...overrides,
+    errors: {
+      ...defaultStrings.errors,
+      ...translation.errors,
+      ...overrides?.errors,
+    },
+  };
+};
@@ -8,8 +8,6 @@ const styles = StyleSheet.create({
     elevation: 5,
   },
   mediaControlsView: {
-    height: 40,
-    backgroundColor: 'rgba(0,0,0,.3)',
     position: 'absolute',
     bottom: 0,
     left: 0,
@@ -24,8 +22,6 @@ const styles = StyleSheet.create({
     right: 0,
     flex: 1,
   },
-  mediaControlIconsCenterStyle: {width: 44, height: 44, tintColor: '#fff'},
-  mediaControlIconsStyle: {width: 22, height: 22, tintColor: '#fff'},
   mediaControlsContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -40,6 +36,216 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     marginLeft: 32,
   },
+  disabledControl: {opacity: 0.4},
+  seekIndicator: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255,255,255,.15)',
+  },
+  gestureBubble: {
+    position: 'absolute',
+    top: 16,
+    alignSelf: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(0,0,0,.6)',
+  },
+  gestureText: {color: '#fff', fontSize: 14, fontWeight: 'bold'},
+  thumbnailPreview: {alignItems: 'center'},
+  seekBarMarks: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+    right: 0,
+    justifyContent: 'center',
+  },
+  chapterGap: {
+    position: 'absolute',
+    width: 2,
+    height: 4,
+    backgroundColor: 'rgba(0,0,0,.6)',
+  },
+  markerTick: {
+    position: 'absolute',
+    width: 4,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#ffd400',
+  },
+  chapterTitle: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: 'bold',
+    textShadowColor: 'rgba(0,0,0,.8)',
+    textShadowRadius: 2,
+  },
+  thumbnailFrame: {
+    overflow: 'hidden',
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: '#fff',
+    backgroundColor: '#000',
+  },
+  thumbnailLabel: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginTop: 4,
+    textShadowColor: 'rgba(0,0,0,.8)',
+    textShadowRadius: 2,
+  },
+  errorView: {
+    backgroundColor: '#000',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+  },
+  errorText: {
+    color: '#fff',
+    fontSize: 14,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  errorSubText: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 12,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  upNextView: {
+    backgroundColor: 'rgba(0,0,0,.6)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 4,
+    elevation: 7,
+  },
+  upNextText: {color: '#fff', fontSize: 14},
+  upNextTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 8,
+    marginHorizontal: 32,
+    textAlign: 'center',
+  },
+  captionCueView: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+  },
+  captionTextContainer: {
+    backgroundColor: 'rgba(0,0,0,.7)',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 2,
+  },
+  captionText: {color: '#fff', fontSize: 16, textAlign: 'center'},
+  menu: {
+    position: 'absolute',
+    bottom: 40,
+    right: 8,
+    minWidth: 120,
+    paddingVertical: 4,
+    backgroundColor: 'rgba(0,0,0,.8)',
+    borderRadius: 4,
+    zIndex: 4,
+    elevation: 7,
+  },
+  menuItem: {paddingVertical: 8, paddingHorizontal: 12},
+  menuText: {color: '#fff', fontSize: 14},
+  settingsRow: {flexDirection: 'row', justifyContent: 'space-between'},
+  settingsValue: {marginLeft: 24, opacity: 0.7},
+  volumePopover: {
+    position: 'absolute',
+    width: 40,
+    height: 132,
+    paddingVertical: 8,
+    alignItems: 'center',
+    borderRadius: 4,
+    zIndex: 4,
+    elevation: 7,
+  },
+  lazyPosterCenter: {alignItems: 'center', justifyContent: 'center'},
+  lazyPosterInfo: {
+    position: 'absolute',
+    left: 12,
+    right: 12,
+    bottom: 12,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    justifyContent: 'space-between',
+  },
+  lazyPosterTitle: {
+    flex: 1,
+    marginRight: 8,
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  lazyPosterDuration: {
+    paddingVertical: 2,
+    paddingHorizontal: 4,
+    borderRadius: 2,
+    color: '#fff',
+    fontSize: 12,
+  },
+  liveBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 2,
+    paddingHorizontal: 6,
+  },
+  liveDot: {width: 8, height: 8, borderRadius: 4, marginRight: 6},
+  liveText: {color: '#fff', fontSize: 12, fontWeight: 'bold'},
+  adLabel: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    paddingVertical: 2,
+    paddingHorizontal: 6,
+    borderRadius: 2,
+    zIndex: 4,
+    elevation: 7,
+  },
+  adText: {color: '#fff', fontSize: 12},
+  syncLabel: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 2,
+    zIndex: 4,
+    elevation: 7,
+  },
+  skipAdButton: {
+    position: 'absolute',
+    right: 0,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderRightWidth: 0,
+    borderColor: 'rgba(255,255,255,0.6)',
+    zIndex: 4,
+    elevation: 7,
+  },
+  upNextButton: {
+    marginTop: 16,
+    marginHorizontal: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: '#fff',
+  },
 });
 
 export default styles;
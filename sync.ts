@@ -0,0 +1,353 @@
+/**
+ * @description carries the messages of a watch together session between the devices, every message sent
+ * by one device has to reach all of the others
+ */
+export type SyncTransport = {
+  send: (message: string) => void;
+  //returns the unsubscribe function
+  subscribe: (listener: (message: string) => void) => () => void;
+  close?: () => void;
+};
+
+export type SyncAction = 'play' | 'pause' | 'seek' | 'rate' | 'state';
+
+//position in seconds
+export type SyncPlaybackState = {
+  isPlaying: boolean;
+  position: number;
+  rate: number;
+};
+
+export type SyncMessage =
+  | ({
+      type: 'state';
+      from: string;
+      name?: string;
+      action: SyncAction;
+      sentAt: number;
+    } & SyncPlaybackState)
+  | {type: 'hello'; from: string}
+  | {type: 'ping'; from: string; sentAt: number}
+  | {
+      type: 'pong';
+      from: string;
+      to: string;
+      pingSentAt: number;
+      sentAt: number;
+    };
+
+/**
+ * @description the player side of a sync controller, useVideoPlayer attaches it through the sync option.
+ * Nothing the controller does through it is sent back to the other devices
+ */
+export type SyncTarget = {
+  getState: () => SyncPlaybackState;
+  //by is the name of the device that did the action
+  apply: (state: SyncPlaybackState, action: SyncAction, by: string) => void;
+  seek: (position: number) => void;
+  //multiplies the rate of the playback to catch up without seeking, 1 ends the nudge
+  nudge: (rateFactor: number) => void;
+};
+
+/**
+ * @description keeps a player in sync with the players of the other devices, see createSyncController
+ */
+export type SyncController = {
+  peerId: string;
+  //returns the detach function
+  attach: (target: SyncTarget) => () => void;
+  //sends an action of the local user, the state of the target is overridden by the passed values
+  broadcast: (action: SyncAction, state?: Partial<SyncPlaybackState>) => void;
+  //ms the clock of the peer is ahead of the local one
+  getClockOffset: (peerId: string) => number;
+  close: () => void;
+};
+
+export type ClockSample = {offset: number; roundTrip: number};
+
+//timeline all the devices follow, set by the latest action of any of them
+type SyncReference = SyncPlaybackState & {at: number};
+
+const MAX_CLOCK_SAMPLES = 5;
+
+/**
+ * @description offset of the clock of a peer from a ping that took roundTrip ms, the one with the shortest
+ * round trip is the most accurate
+ */
+export const estimateClockOffset = (samples: ClockSample[]) =>
+  samples.reduce<ClockSample | null>(
+    (best, sample) =>
+      !best || sample.roundTrip < best.roundTrip ? sample : best,
+    null,
+  )?.offset ?? 0;
+
+export const getExpectedPosition = (reference: SyncReference, now: number) =>
+  reference.isPlaying
+    ? reference.position + ((now - reference.at) / 1000) * reference.rate
+    : reference.position;
+
+/**
+ * @description how to get rid of the drift, the seconds the player is ahead of the others. Small drifts are
+ * left alone, bigger ones are played away faster or slower and the biggest ones are seeked away
+ */
+export const getDriftCorrection = (
+  drift: number,
+  options: {driftThreshold: number; seekThreshold: number; nudgeRate: number},
+): {type: 'seek'} | {type: 'nudge'; rateFactor: number} => {
+  if (Math.abs(drift) > options.seekThreshold) {
+    return {type: 'seek'};
+  }
+  if (Math.abs(drift) > options.driftThreshold) {
+    return {
+      type: 'nudge',
+      rateFactor: drift > 0 ? 1 - options.nudgeRate : 1 + options.nudgeRate,
+    };
+  }
+  return {type: 'nudge', rateFactor: 1};
+};
+
+const createPeerId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * @description watch together: sends the play, pause, seek and rate actions of the local user to the other devices
+ * and applies theirs, with the time the message took corrected by the estimated clock offset to each device.
+ * Every syncInterval the drift from the timeline of the latest action is checked
+ * @param {SyncTransport} transport - e.g. createWebSocketTransport or a loopback transport of createLoopbackHub
+ * @param {string} name - shown to the others when this device pauses, defaults to the peer id
+ * @param {number} driftThreshold - seconds of drift that are nudged away, default is 0.3
+ * @param {number} seekThreshold - seconds of drift that are seeked away, default is 2
+ * @param {number} nudgeRate - how much faster or slower a nudged player plays, default is 0.05
+ * @param {number} syncInterval - ms between drift checks, default is 1000
+ * @param {number} pingInterval - ms between clock offset measurements, default is 5000
+ */
+export const createSyncController = (options: {
+  transport: SyncTransport;
+  peerId?: string;
+  name?: string;
+  driftThreshold?: number;
+  seekThreshold?: number;
+  nudgeRate?: number;
+  syncInterval?: number;
+  pingInterval?: number;
+}): SyncController => {
+  const {transport} = options;
+  const peerId = options.peerId ?? createPeerId();
+  const correctionOptions = {
+    driftThreshold: options.driftThreshold ?? 0.3,
+    seekThreshold: options.seekThreshold ?? 2,
+    nudgeRate: options.nudgeRate ?? 0.05,
+  };
+  const clockSamples = new Map<string, ClockSample[]>();
+  let target: SyncTarget | null = null;
+  let reference: SyncReference | null = null;
+  let rateFactor = 1;
+
+  const send = (message: SyncMessage) =>
+    transport.send(JSON.stringify(message));
+
+  const getClockOffset = (id: string) =>
+    estimateClockOffset(clockSamples.get(id) ?? []);
+
+  const sendState = (action: SyncAction, state: SyncPlaybackState) => {
+    send({
+      type: 'state',
+      from: peerId,
+      name: options.name,
+      action,
+      sentAt: Date.now(),
+      ...state,
+    });
+  };
+
+  const nudge = (factor: number) => {
+    if (factor !== rateFactor) {
+      rateFactor = factor;
+      target?.nudge(factor);
+    }
+  };
+
+  const checkDrift = () => {
+    if (!target || !reference || !reference.isPlaying) {
+      return;
+    }
+    const state = target.getState();
+    if (!state.isPlaying) {
+      return;
+    }
+    const expectedPosition = getExpectedPosition(reference, Date.now());
+    const correction = getDriftCorrection(
+      state.position - expectedPosition,
+      correctionOptions,
+    );
+    if (correction.type === 'seek') {
+      nudge(1);
+      target.seek(expectedPosition);
+    } else {
+      nudge(correction.rateFactor);
+    }
+  };
+
+  const onMessage = (data: string) => {
+    let message: SyncMessage;
+    try {
+      message = JSON.parse(data);
+    } catch (e) {
+      return;
+    }
+    if (message.from === peerId) {
+      return;
+    }
+    const now = Date.now();
+    switch (message.type) {
+      case 'hello': {
+        //a player that has not been started yet does not know better than the new one
+        const state = target?.getState();
+        if (state && (reference || state.isPlaying || state.position > 0)) {
+          sendState('state', state);
+        }
+        break;
+      }
+      case 'ping':
+        send({
+          type: 'pong',
+          from: peerId,
+          to: message.from,
+          pingSentAt: message.sentAt,
+          sentAt: now,
+        });
+        break;
+      case 'pong': {
+        if (message.to !== peerId) {
+          return;
+        }
+        //the peer answered halfway through the round trip
+        const sample = {
+          offset: message.sentAt - (message.pingSentAt + now) / 2,
+          roundTrip: now - message.pingSentAt,
+        };
+        clockSamples.set(
+          message.from,
+          [...(clockSamples.get(message.from) ?? []), sample].slice(
+            -MAX_CLOCK_SAMPLES,
+          ),
+        );
+        break;
+      }
+      case 'state': {
+        const sentAt = message.sentAt - getClockOffset(message.from);
+        const state: SyncPlaybackState = {
+          isPlaying: message.isPlaying,
+          rate: message.rate,
+          position: getExpectedPosition({...message, at: sentAt}, now),
+        };
+        reference = {...state, at: now};
+        nudge(1);
+        target?.apply(state, message.action, message.name ?? message.from);
+        break;
+      }
+    }
+  };
+
+  const unsubscribe = transport.subscribe(onMessage);
+  const ping = () => send({type: 'ping', from: peerId, sentAt: Date.now()});
+  const pingTimer = setInterval(ping, options.pingInterval ?? 5000);
+  ping();
+
+  return {
+    peerId,
+    attach: newTarget => {
+      target = newTarget;
+      rateFactor = 1;
+      const driftTimer = setInterval(checkDrift, options.syncInterval ?? 1000);
+      //the others answer with their state
+      send({type: 'hello', from: peerId});
+      return () => {
+        clearInterval(driftTimer);
+        if (target === newTarget) target = null;
+      };
+    },
+    broadcast: (action, state) => {
+      if (!target) {
+        return;
+      }
+      const fullState = {...target.getState(), ...state};
+      reference = {...fullState, at: Date.now()};
+      nudge(1);
+      sendState(action, fullState);
+    },
+    getClockOffset,
+    close: () => {
+      clearInterval(pingTimer);
+      unsubscribe();
+      transport.close?.();
+    },
+  };
+};
+
+/**
+ * @description transport over a WebSocket server that relays every message to the other clients of the room,
+ * messages sent before the socket opens are sent once it does
+ */
+export const createWebSocketTransport = (
+  urlOrSocket: string | WebSocket,
+): SyncTransport => {
+  const socket =
+    typeof urlOrSocket === 'string' ? new WebSocket(urlOrSocket) : urlOrSocket;
+  const listeners = new Set<(message: string) => void>();
+  let queue: string[] = [];
+
+  socket.onopen = () => {
+    queue.forEach(message => socket.send(message));
+    queue = [];
+  };
+  socket.onmessage = event => {
+    if (typeof event.data === 'string') {
+      listeners.forEach(listener => listener(event.data));
+    }
+  };
+
+  return {
+    send: message => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(message);
+      } else if (socket.readyState === WebSocket.CONNECTING) {
+        queue = [...queue, message];
+      }
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close: () => socket.close(),
+  };
+};
+
+/**
+ * @description in memory stand-in for a server, every transport made by connect gets the messages of the
+ * others. Messages are delivered asynchronously like over a network, e.g. for tests or a demo on one device
+ */
+export const createLoopbackHub = () => {
+  const transports = new Set<(message: string) => void>();
+
+  return {
+    connect: (): SyncTransport => {
+      const listeners = new Set<(message: string) => void>();
+      const deliver = (message: string) =>
+        listeners.forEach(listener => listener(message));
+      transports.add(deliver);
+      return {
+        send: message => {
+          transports.forEach(other => {
+            if (other !== deliver) setTimeout(() => other(message), 0);
+          });
+        },
+        subscribe: listener => {
+          listeners.add(listener);
+          return () => listeners.delete(listener);
+        },
+        close: () => transports.delete(deliver),
+      };
+    },
+  };
+};
@@ -0,0 +1,250 @@
+import React, {createContext, ReactNode, useContext} from 'react';
+import {
+  ImageSourcePropType,
+  Platform,
+  StyleProp,
+  TextStyle,
+} from 'react-native';
+import {
+  audio,
+  closedCaptions,
+  exitFullscreen,
+  forward,
+  fullScreen,
+  mute,
+  next,
+  pause,
+  play,
+  previous,
+  retry,
+  rewind,
+  settings,
+} from './images';
+
+export type VideoPlayerIcons = {
+  play: ImageSourcePropType;
+  pause: ImageSourcePropType;
+  rewind: ImageSourcePropType;
+  forward: ImageSourcePropType;
+  next: ImageSourcePropType;
+  previous: ImageSourcePropType;
+  mute: ImageSourcePropType;
+  audio: ImageSourcePropType;
+  fullScreen: ImageSourcePropType;
+  exitFullscreen: ImageSourcePropType;
+  retry: ImageSourcePropType;
+  closedCaptions: ImageSourcePropType;
+  settings: ImageSourcePropType;
+};
+
+/**
+ * @description look of the video player, pass a partial theme through the theme prop or the
+ * VideoPlayerThemeProvider, everything that is left out keeps its default value
+ */
+export type VideoPlayerTheme = {
+  colors: {
+    icon: string;
+    text: string;
+    loader: string;
+    seekBarMinimumTrack: string;
+    seekBarMaximumTrack: string;
+    seekBarThumb: string;
+    chapterGap: string;
+    marker: string;
+    overlay: string;
+    menuBackground: string;
+    captionText: string;
+    captionBackground: string;
+    live: string;
+    //background of the root element of the screen, defaults to #fff in portrait and #000 in full screen
+    rootBackground?: string;
+  };
+  icons: VideoPlayerIcons;
+  iconSizes: {
+    center: number;
+    controlBar: number;
+    retry: number;
+  };
+  fonts: {
+    family?: string;
+    boldFamily?: string;
+    size: number;
+    smallSize: number;
+  };
+  controlBar: {
+    height: number;
+    fullScreenHeight: number;
+    backgroundColor: string;
+  };
+  seekBar: {
+    thumbSize: number;
+  };
+  errorScreen: {
+    backgroundColor: string;
+    iconColor: string;
+    textColor: string;
+    secondaryTextColor: string;
+  };
+  textStyles: {
+    time?: StyleProp<TextStyle>;
+  };
+};
+
+export type VideoPlayerThemeOverrides = {
+  [Section in keyof VideoPlayerTheme]?: Partial<VideoPlayerTheme[Section]>;
+};
+
+export const defaultTheme: VideoPlayerTheme = {
+  colors: {
+    icon: '#fff',
+    text: '#fff',
+    loader: '#0095ff',
+    seekBarMinimumTrack: '#fff',
+    seekBarMaximumTrack: 'rgba(255,255,255,0.6)',
+    seekBarThumb: '#fff',
+    chapterGap: 'rgba(0,0,0,.6)',
+    marker: '#ffd400',
+    overlay: 'rgba(0,0,0,.6)',
+    menuBackground: 'rgba(0,0,0,.8)',
+    captionText: '#fff',
+    captionBackground: 'rgba(0,0,0,.7)',
+    live: '#e53935',
+  },
+  icons: {
+    play,
+    pause,
+    rewind,
+    forward,
+    next,
+    previous,
+    mute,
+    audio,
+    fullScreen,
+    exitFullscreen,
+    retry,
+    closedCaptions,
+    settings,
+  },
+  iconSizes: {
+    center: 44,
+    controlBar: 22,
+    retry: 64,
+  },
+  fonts: {
+    size: 14,
+    smallSize: 12,
+  },
+  controlBar: {
+    height: 40,
+    fullScreenHeight: 60,
+    backgroundColor: 'rgba(0,0,0,.3)',
+  },
+  seekBar: {
+    thumbSize: 18,
+  },
+  errorScreen: {
+    backgroundColor: '#000',
+    iconColor: '#fff',
+    textColor: '#fff',
+    secondaryTextColor: 'rgba(255,255,255,0.6)',
+  },
+  textStyles: {},
+};
+
+const withoutUndefined = <T extends object>(values?: Partial<T>) => {
+  const result: Partial<T> = {};
+  if (values) {
+    (Object.keys(values) as (keyof T)[]).forEach(key => {
+      if (values[key] !== undefined) {
+        result[key] = values[key];
+      }
+    });
+  }
+  return result;
+};
+
+/**
+ * @description merges every section of the overrides into the base theme, undefined values are skipped so
+ * that optional props can be passed through as they are
+ */
+export const mergeTheme = (
+  base: VideoPlayerTheme,
+  ...overrides: (VideoPlayerThemeOverrides | undefined)[]
+): VideoPlayerTheme => {
+  return overrides.reduce<VideoPlayerTheme>(
+    (theme, override) => ({
+      colors: {...theme.colors, ...withoutUndefined(override?.colors)},
+      icons: {...theme.icons, ...withoutUndefined(override?.icons)},
+      iconSizes: {...theme.iconSizes, ...withoutUndefined(override?.iconSizes)},
+      fonts: {...theme.fonts, ...withoutUndefined(override?.fonts)},
+      controlBar: {
+        ...theme.controlBar,
+        ...withoutUndefined(override?.controlBar),
+      },
+      seekBar: {...theme.seekBar, ...withoutUndefined(override?.seekBar)},
+      errorScreen: {
+        ...theme.errorScreen,
+        ...withoutUndefined(override?.errorScreen),
+      },
+      textStyles: {
+        ...theme.textStyles,
+        ...withoutUndefined(override?.textStyles),
+      },
+    }),
+    base,
+  );
+};
+
+/**
+ * @description size and tint of an icon of the player, center is used for the big buttons in the middle
+ * of the video and controlBar for the ones in the bottom bar
+ */
+export const getIconStyle = (
+  theme: VideoPlayerTheme,
+  size: keyof VideoPlayerTheme['iconSizes'],
+) => ({
+  width: theme.iconSizes[size],
+  height: theme.iconSizes[size],
+  tintColor: theme.colors.icon,
+});
+
+export const getTextStyle = (theme: VideoPlayerTheme) => ({
+  color: theme.colors.text,
+  fontFamily: theme.fonts.family,
+});
+
+/**
+ * @description the control bar is taller on iOS in full screen to stay clear of the home indicator
+ */
+export const getControlBarHeight = (
+  theme: VideoPlayerTheme,
+  isFullScreen: boolean,
+) =>
+  Platform.OS === 'ios' && isFullScreen
+    ? theme.controlBar.fullScreenHeight
+    : theme.controlBar.height;
+
+export const VideoPlayerThemeContext =
+  createContext<VideoPlayerTheme>(defaultTheme);
+
+/**
+ * @description theme of the closest VideoPlayerThemeProvider, or of the VideoPlayer when used inside of it
+ */
+export const useVideoPlayerTheme = () => useContext(VideoPlayerThemeContext);
+
+/**
+ * @description sets the theme of every VideoPlayer below it, providers can be nested and the inner
+ * theme is merged into the outer one
+ */
+export function VideoPlayerThemeProvider(props: {
+  theme: VideoPlayerThemeOverrides | VideoPlayerTheme;
+  children?: ReactNode;
+}) {
+  const parentTheme = useVideoPlayerTheme();
+  return (
+    <VideoPlayerThemeContext.Provider
+      value={mergeTheme(parentTheme, props.theme)}>
+      {props.children}
+    </VideoPlayerThemeContext.Provider>
+  );
+}
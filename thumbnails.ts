@@ -0,0 +1,119 @@
+import {parseRawCues} from './captions';
+
+/**
+ * @description WebVTT thumbnails track, every cue points to an image or to a frame of a sprite image
+ * with a #xywh=x,y,w,h fragment
+ * @param {string} uri - url of the WebVTT file, relative image urls are resolved against it
+ * @param {string} content - the WebVTT file itself as a string
+ * @param {string} baseUri - url relative image urls are resolved against when content is passed
+ */
+export type ThumbnailTrack = {
+  uri?: string;
+  content?: string;
+  baseUri?: string;
+};
+
+/**
+ * @description frame of the thumbnails track, start and end are in seconds and crop is missing when
+ * the cue points to a whole image instead of a sprite frame
+ */
+export type Thumbnail = {
+  start: number;
+  end: number;
+  uri: string;
+  crop?: {x: number; y: number; width: number; height: number};
+};
+
+const XYWH_REGEX = /#xywh=(?:pixel:)?(\d+),(\d+),(\d+),(\d+)$/;
+
+/**
+ * @description resolves a relative url against the url of the file that references it
+ */
+export const resolveUri = (uri: string, baseUri?: string) => {
+  if (!baseUri || /^[a-z][a-z0-9+.-]*:/i.test(uri)) {
+    return uri;
+  }
+  const base = baseUri.split(/[?#]/)[0];
+  if (uri.startsWith('//')) {
+    return `${base.split(':')[0]}:${uri}`;
+  }
+  if (uri.startsWith('/')) {
+    const origin = /^[a-z][a-z0-9+.-]*:\/\/[^/]+/i.exec(base);
+    return origin ? origin[0] + uri : uri;
+  }
+  return base.slice(0, base.lastIndexOf('/') + 1) + uri;
+};
+
+export const parseThumbnails = (
+  input: string,
+  baseUri?: string,
+): Thumbnail[] => {
+  const thumbnails: Thumbnail[] = [];
+  parseRawCues(input).forEach(({start, end, text}) => {
+    const reference = text.trim().split('\n')[0];
+    if (!reference) {
+      return;
+    }
+    const match = XYWH_REGEX.exec(reference);
+    const uri = resolveUri(
+      match ? reference.slice(0, match.index) : reference,
+      baseUri,
+    );
+    thumbnails.push(
+      match
+        ? {
+            start,
+            end,
+            uri,
+            crop: {
+              x: parseInt(match[1], 10),
+              y: parseInt(match[2], 10),
+              width: parseInt(match[3], 10),
+              height: parseInt(match[4], 10),
+            },
+          }
+        : {start, end, uri},
+    );
+  });
+  return thumbnails;
+};
+
+export const loadThumbnails = async (
+  track: ThumbnailTrack,
+): Promise<Thumbnail[]> => {
+  if (track.content !== undefined) {
+    return parseThumbnails(track.content, track.baseUri ?? track.uri);
+  }
+  if (!track.uri) {
+    return [];
+  }
+  const response = await fetch(track.uri);
+  if (!response.ok) {
+    throw new Error(`Failed to load thumbnails track ${track.uri}`);
+  }
+  return parseThumbnails(await response.text(), track.baseUri ?? track.uri);
+};
+
+/**
+ * @description returns the frame shown at the given time, the thumbnails must be sorted by start time
+ */
+export const getThumbnailAt = (
+  thumbnails: Thumbnail[],
+  time: number,
+): Thumbnail | null => {
+  let low = 0;
+  let high = thumbnails.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const thumbnail = thumbnails[middle];
+    if (time < thumbnail.start) {
+      high = middle - 1;
+    } else if (time >= thumbnail.end) {
+      low = middle + 1;
+    } else {
+      return thumbnail;
+    }
+  }
+  //between two cues or past the last one, the previous frame is the closest
+  return high >= 0 ? thumbnails[high] : null;
+};
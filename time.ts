@@ -0,0 +1,24 @@
+/**
+ * @description formats seconds for the time labels, pass one through the timeFormatter prop to change how
+ * times look everywhere in the player
+ */
+export type TimeFormatter = (seconds: number) => string;
+
+const pad = (value: number) => (value < 10 ? `0${value}` : `${value}`);
+
+/**
+ * @description formats seconds as mm:ss, or as hh:mm:ss once the time reaches an hour. Hours are not wrapped
+ * at 24, fractions are rounded to the closest second and NaN or Infinity show as 00:00
+ */
+export const msToTime: TimeFormatter = seconds => {
+  if (!Number.isFinite(seconds)) {
+    return '00:00';
+  }
+  const totalSeconds = Math.round(Math.abs(seconds));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const time = `${pad(minutes)}:${pad(totalSeconds % 60)}`;
+  return `${seconds < 0 && totalSeconds > 0 ? '-' : ''}${
+    hours > 0 ? `${pad(hours)}:` : ''
+  }${time}`;
+};
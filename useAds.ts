@@ -0,0 +1,235 @@
+import {RefObject, useEffect, useRef, useState} from 'react';
+import Video, {OnLoadData, OnProgressData} from 'react-native-video';
+import {
+  AdPlayback,
+  AdsConfig,
+  AdTrackingEvent,
+  defaultAdHttp,
+  firePixels,
+  getAdBreakIndex,
+  getDueAdBreakIndex,
+  getQuartileEvents,
+  getSkipIn,
+  loadAdSchedule,
+  markAdBreaksPlayed,
+  resolveVastAds,
+  ScheduledAdBreak,
+  VAST_MEDIA_ERROR,
+  VastAd,
+} from './ads';
+
+type AdPod = {
+  ads: VastAd[];
+  index: number;
+  isPostRoll: boolean;
+};
+
+/**
+ * @description the ad schedule of the current source, plays its breaks in place of the content and tracks them.
+ * The schedule is loaded again for every source, the ads of the previous one are dropped
+ * @param {AdsConfig} config - ad tags of the source, no ads are played without it
+ * @param {boolean} isSourceDeferred - the schedule is only loaded once the source is
+ * @param {number} duration - duration of the content, places the breaks given in percent
+ * @param {function} getContentPosition - position of the content a break starts at
+ * @param {function} onAdStart - called when an ad of a break starts loading
+ * @param {function} onAdPlaying - called on every progress of an ad
+ * @param {function} onBreakEnd - called with the content position to continue from once a break is over
+ * @param {function} onPostRollEnd - called once the post-roll is over or turned out to be empty
+ */
+export default function useAds(options: {
+  config?: AdsConfig;
+  playlistIndex: number;
+  sourceKey?: string | number;
+  isSourceDeferred: boolean;
+  duration: number;
+  playerRef: RefObject<Video>;
+  getContentPosition: () => number;
+  onAdStart: () => void;
+  onAdPlaying: () => void;
+  onBreakEnd: (contentPosition: number) => void;
+  onPostRollEnd: () => void;
+}) {
+  const {config, playlistIndex, sourceKey, isSourceDeferred, duration} =
+    options;
+  const [schedule, setSchedule] = useState<ScheduledAdBreak[]>([]);
+  const [adPod, setAdPod] = useState<AdPod | null>(null);
+  const [adTime, setAdTime] = useState(0);
+  const [adDuration, setAdDuration] = useState(0);
+  const [isAdLoading, setIsAdLoading] = useState(false);
+  const http = config?.http ?? defaultAdHttp;
+  const currentAd = adPod ? adPod.ads[adPod.index] : null;
+  const firedEvents = useRef<AdTrackingEvent[]>([]);
+  //content position to continue from after the ad break
+  const contentResumePosition = useRef(0);
+  //position in the current ad to continue from when the video is mounted again during it
+  const adResumeTime = useRef<number | null>(null);
+  //bumped on every source change so that ads of the previous source are dropped
+  const adRequest = useRef(0);
+
+  const trackAd = (ad: VastAd, event: AdTrackingEvent, errorCode?: number) => {
+    if (!firedEvents.current.includes(event)) {
+      firedEvents.current = [...firedEvents.current, event];
+      firePixels(ad.tracking[event], http, errorCode);
+    }
+  };
+
+  const startAd = (pod: AdPod) => {
+    firedEvents.current = [];
+    adResumeTime.current = null;
+    setAdTime(0);
+    setAdDuration(pod.ads[pod.index].duration);
+    setAdPod(pod);
+    options.onAdStart();
+  };
+
+  const playAdBreak = (breaks: ScheduledAdBreak[], index: number) => {
+    const adBreak = breaks[index];
+    const request = adRequest.current;
+    setSchedule(markAdBreaksPlayed(breaks, index, duration));
+    setIsAdLoading(true);
+    resolveVastAds(adBreak, http, config?.maxWrapperDepth)
+      .catch((): VastAd[] => [])
+      .then(ads => {
+        if (request !== adRequest.current) {
+          return;
+        }
+        setIsAdLoading(false);
+        if (ads.length > 0) {
+          contentResumePosition.current = options.getContentPosition();
+          startAd({ads, index: 0, isPostRoll: adBreak.offset === 'end'});
+        } else if (adBreak.offset === 'end') {
+          options.onPostRollEnd();
+        }
+      });
+  };
+
+  const finishAdBreak = () => {
+    const isPostRoll = adPod?.isPostRoll;
+    setAdPod(null);
+    if (isPostRoll) {
+      contentResumePosition.current = 0;
+      options.onPostRollEnd();
+      return;
+    }
+    options.onBreakEnd(contentResumePosition.current);
+  };
+
+  const playNextAd = () => {
+    if (adPod && adPod.index + 1 < adPod.ads.length) {
+      startAd({...adPod, index: adPod.index + 1});
+    } else {
+      finishAdBreak();
+    }
+  };
+
+  useEffect(() => {
+    const request = ++adRequest.current;
+    setAdPod(null);
+    setSchedule([]);
+    setIsAdLoading(!!config && !isSourceDeferred);
+    if (!config || isSourceDeferred) {
+      return;
+    }
+    loadAdSchedule(config)
+      .catch((): ScheduledAdBreak[] => [])
+      .then(breaks => {
+        if (request !== adRequest.current) {
+          return;
+        }
+        setIsAdLoading(false);
+        setSchedule(breaks);
+        const preRollIndex = getAdBreakIndex(breaks, 'start');
+        if (preRollIndex !== -1) playAdBreak(breaks, preRollIndex);
+      });
+  }, [playlistIndex, sourceKey, isSourceDeferred]);
+
+  const onLoad = (data: OnLoadData) => {
+    if (data.duration > 0) setAdDuration(data.duration);
+    if (adResumeTime.current !== null) {
+      options.playerRef.current?.seek(adResumeTime.current);
+    }
+  };
+
+  const onProgress = (data: OnProgressData) => {
+    if (!currentAd) {
+      return;
+    }
+    options.onAdPlaying();
+    if (adResumeTime.current !== null) {
+      //the ad starts from 0 until the seek of onLoad lands, the skip countdown must not start over
+      if (data.currentTime < adResumeTime.current - 1) {
+        return;
+      }
+      adResumeTime.current = null;
+    }
+    trackAd(currentAd, 'impression');
+    trackAd(currentAd, 'start');
+    getQuartileEvents(adTime, data.currentTime, adDuration).forEach(event =>
+      trackAd(currentAd, event),
+    );
+    setAdTime(data.currentTime);
+  };
+
+  const onEnd = () => {
+    if (currentAd) trackAd(currentAd, 'complete');
+    playNextAd();
+  };
+
+  const onError = () => {
+    if (currentAd) trackAd(currentAd, 'error', VAST_MEDIA_ERROR);
+    playNextAd();
+  };
+
+  const skipAd = () => {
+    if (currentAd && getSkipIn(currentAd, adTime) === 0) {
+      trackAd(currentAd, 'skip');
+      playNextAd();
+    }
+  };
+
+  //plays the mid-roll that is due at the position of the content, if any
+  const playDueBreak = (contentTime: number) => {
+    if (isAdLoading) {
+      return;
+    }
+    const dueIndex = getDueAdBreakIndex(schedule, contentTime, duration);
+    if (dueIndex !== -1) playAdBreak(schedule, dueIndex);
+  };
+
+  //plays the post-roll at the end of the content, false when there is none
+  const playPostRoll = () => {
+    const postRollIndex = getAdBreakIndex(schedule, 'end');
+    if (postRollIndex === -1) {
+      return false;
+    }
+    playAdBreak(schedule, postRollIndex);
+    return true;
+  };
+
+  const ad: AdPlayback | null =
+    adPod && currentAd
+      ? {
+          ad: currentAd,
+          position: adPod.index + 1,
+          count: adPod.ads.length,
+          currentTime: adTime,
+          duration: adDuration,
+          skipIn: getSkipIn(currentAd, adTime),
+        }
+      : null;
+
+  return {
+    ad,
+    currentAd,
+    isAdLoading,
+    //spread on the Video while an ad plays
+    videoProps: {onLoad, onProgress, onEnd, onError},
+    skipAd,
+    playDueBreak,
+    playPostRoll,
+    //the video is mounted again, the ad continues from the same time once it loads
+    keepAdTime: () => {
+      adResumeTime.current = adTime;
+    },
+  };
+}
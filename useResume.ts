@@ -0,0 +1,116 @@
+import {useEffect, useRef, useState} from 'react';
+import {memoryStorage, PositionStorage} from './resumeStorage';
+
+/**
+ * @description saves the position of the playback under resumeKey and continues from it the next time the key
+ * is played, right away or after the user answered the resume prompt
+ * @param {string} resumeKey - key of the saved position, nothing is saved without it
+ * @param {PositionStorage} storage - default is an in-memory storage
+ * @param {number} saveInterval - ms between saves while playing, default is 5000
+ * @param {number} completionThreshold - share of the duration from which the video counts as watched, its position
+ *        is dropped then, default is 0.95
+ * @param {boolean} prompt - default is false, pass true to ask before continuing from the saved position
+ * @param {function} getPosition - returns the position to save
+ * @param {function} seek - continues the playback from the saved position
+ * @param {function} setPlaying - plays or pauses, the playback is paused while the prompt is shown
+ */
+export default function useResume(options: {
+  resumeKey?: string;
+  storage?: PositionStorage;
+  saveInterval?: number;
+  completionThreshold?: number;
+  prompt?: boolean;
+  duration: number;
+  isLive: boolean;
+  isPlaying: boolean;
+  getPosition: () => number;
+  seek: (position: number) => void;
+  setPlaying: (isPlaying: boolean) => void;
+}) {
+  const {resumeKey, duration, isLive, isPlaying} = options;
+  const storage = options.storage ?? memoryStorage;
+  const saveInterval = options.saveInterval ?? 5000;
+  const completionThreshold = options.completionThreshold ?? 0.95;
+  //undefined until the saved position of the current resumeKey is read from the storage
+  const [savedPosition, setSavedPosition] = useState<number | null>();
+  const [promptPosition, setPromptPosition] = useState<number | null>(null);
+  const isResumeApplied = useRef<boolean>(false);
+
+  const savePosition = () => {
+    const position = options.getPosition();
+    if (resumeKey && !isLive && position > 0) {
+      storage.set(resumeKey, position).catch(() => {});
+    }
+  };
+
+  const removePosition = () => {
+    if (resumeKey) storage.remove(resumeKey).catch(() => {});
+  };
+
+  useEffect(() => {
+    let isActive = true;
+    isResumeApplied.current = false;
+    setSavedPosition(undefined);
+    setPromptPosition(null);
+    if (resumeKey) {
+      storage
+        .get(resumeKey)
+        .then(position => {
+          if (isActive) setSavedPosition(position);
+        })
+        .catch(() => {
+          if (isActive) setSavedPosition(null);
+        });
+    }
+    return () => {
+      isActive = false;
+      savePosition();
+    };
+  }, [resumeKey]);
+
+  useEffect(() => {
+    if (
+      !resumeKey ||
+      savedPosition === undefined ||
+      duration <= 0 ||
+      isLive ||
+      isResumeApplied.current
+    ) {
+      return;
+    }
+    isResumeApplied.current = true;
+    if (!savedPosition) {
+      return;
+    }
+    if (savedPosition / duration >= completionThreshold) {
+      removePosition();
+      return;
+    }
+    if (options.prompt) {
+      options.setPlaying(false);
+      setPromptPosition(savedPosition);
+    } else {
+      options.seek(savedPosition);
+    }
+  }, [savedPosition, duration]);
+
+  useEffect(() => {
+    if (!resumeKey || !isPlaying) {
+      return;
+    }
+    const saveTimer = setInterval(savePosition, saveInterval);
+    return () => clearInterval(saveTimer);
+  }, [resumeKey, isPlaying]);
+
+  const answerPrompt = (shouldResume: boolean) => {
+    if (shouldResume && promptPosition !== null) {
+      options.seek(promptPosition);
+    } else {
+      removePosition();
+    }
+    setPromptPosition(null);
+    options.setPlaying(true);
+  };
+
+  return {promptPosition, savePosition, removePosition, answerPrompt};
+}
@@ -0,0 +1,96 @@
+import {useEffect, useRef, useState} from 'react';
+import {
+  DEFAULT_SOURCE_STARTUP_TIMEOUT,
+  getSourceKey,
+  VideoSource,
+} from './sources';
+
+/**
+ * @description plays the candidates of a source one after the other, the next one is tried when the current one
+ * fails or shows no frame within the startup timeout
+ * @param {(VideoSource | number)[]} candidates - candidates of the current source, see getSourceCandidates
+ * @param {number} playlistIndex - entry of the playlist the candidates belong to
+ * @param {boolean} isWaiting - whether the first frame of the candidate is awaited, the startup timeout only runs then
+ * @param {number} startupTimeout - ms to wait for the first frame, default is 15000
+ * @param {function} onFallBack - called right before the next candidate is played
+ * @param {function} onSourceReady - called once per candidate that shows its first frame
+ */
+export default function useSourceFallback(options: {
+  candidates: (VideoSource | number)[];
+  playlistIndex: number;
+  isWaiting: boolean;
+  startupTimeout?: number;
+  onFallBack: () => void;
+  onSourceReady?: (source: VideoSource | number, index: number) => void;
+}) {
+  const {candidates, playlistIndex} = options;
+  //candidate the player fell back to, it only applies to the source it was made for
+  const [fallback, setFallback] = useState<{
+    playlistIndex: number;
+    sourceKey?: string | number;
+    sourceIndex: number;
+  } | null>(null);
+  //the first candidate stands for the whole source, falling back does not start a new one
+  const sourceKey = getSourceKey(candidates[0]);
+  const sourceIndex =
+    fallback &&
+    fallback.playlistIndex === playlistIndex &&
+    fallback.sourceKey === sourceKey
+      ? fallback.sourceIndex
+      : 0;
+  const source = candidates[sourceIndex];
+  const startupTimer = useRef<any>(null);
+  //source onSourceReady was called for, a remount, a retry or the end of an ad break do not report it again
+  const reportedSource = useRef<{
+    playlistIndex: number;
+    sourceIndex: number;
+  } | null>(null);
+
+  useEffect(() => {
+    reportedSource.current = null;
+  }, [playlistIndex, sourceKey]);
+
+  //plays the next candidate, false when there is none left
+  const fallBack = () => {
+    if (sourceIndex + 1 >= candidates.length) {
+      return false;
+    }
+    options.onFallBack();
+    setFallback({playlistIndex, sourceKey, sourceIndex: sourceIndex + 1});
+    return true;
+  };
+
+  useEffect(() => {
+    if (sourceIndex + 1 >= candidates.length || !options.isWaiting) {
+      return;
+    }
+    startupTimer.current = setTimeout(
+      fallBack,
+      options.startupTimeout ?? DEFAULT_SOURCE_STARTUP_TIMEOUT,
+    );
+    return () => clearTimeout(startupTimer.current);
+  }, [playlistIndex, sourceKey, sourceIndex, options.isWaiting]);
+
+  //the candidate showed its first frame
+  const onReady = () => {
+    clearTimeout(startupTimer.current);
+    if (
+      source !== undefined &&
+      (reportedSource.current?.playlistIndex !== playlistIndex ||
+        reportedSource.current?.sourceIndex !== sourceIndex)
+    ) {
+      reportedSource.current = {playlistIndex, sourceIndex};
+      options.onSourceReady?.(source, sourceIndex);
+    }
+  };
+
+  return {
+    sourceKey,
+    sourceIndex,
+    source,
+    fallBack,
+    //goes back to the first candidate, e.g. for a retry
+    reset: () => setFallback(null),
+    onReady,
+  };
+}
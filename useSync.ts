@@ -0,0 +1,98 @@
+import {useEffect, useRef, useState} from 'react';
+import {announce} from './accessibility';
+import {SyncController, SyncPlaybackState, SyncTarget} from './sync';
+import {VideoPlayerStrings} from './strings';
+import useValueChange from './useValueChange';
+
+//seconds a remote action may be off before it seeks, smaller differences are nudged away by the sync controller
+const SYNC_SEEK_TOLERANCE = 1;
+
+/**
+ * @description attaches the player to a sync controller. The play, pause and rate changes of the player are
+ * broadcast, the ones the other devices made are applied without being sent back
+ * @param {SyncController} sync - controller of the watch together session, nothing is synced without it
+ * @param {function} setPlaying - applies a remote play or pause
+ * @param {function} setRate - applies a remote rate
+ * @param {function} seek - applies a remote position, it is not broadcast back
+ */
+export default function useSync(options: {
+  sync?: SyncController;
+  isPlaying: boolean;
+  rate: number;
+  position: number;
+  labels: VideoPlayerStrings;
+  setPlaying: (isPlaying: boolean) => void;
+  setRate: (rate: number) => void;
+  seek: (position: number) => void;
+}) {
+  const {sync, isPlaying, rate, position, labels} = options;
+  const [rateFactor, setRateFactor] = useState(1);
+  const [pausedBy, setPausedBy] = useState<string | null>(null);
+  const syncTarget = useRef<SyncTarget | null>(null);
+  //values set by the other devices, their changes are not sent back
+  const remoteState = useRef<Partial<SyncPlaybackState>>({});
+
+  useEffect(() => {
+    if (!sync) {
+      return;
+    }
+    const detach = sync.attach({
+      getState: () => syncTarget.current!.getState(),
+      apply: (state, action, by) =>
+        syncTarget.current?.apply(state, action, by),
+      seek: seekPosition => syncTarget.current?.seek(seekPosition),
+      nudge: factor => syncTarget.current?.nudge(factor),
+    });
+    return () => {
+      detach();
+      setRateFactor(1);
+    };
+  }, [sync]);
+
+  useValueChange(isPlaying, value => {
+    if (value) setPausedBy(null);
+    const isRemote = remoteState.current.isPlaying === value;
+    remoteState.current.isPlaying = undefined;
+    if (!isRemote) sync?.broadcast(value ? 'play' : 'pause');
+  });
+
+  useValueChange(rate, value => {
+    const isRemote = remoteState.current.rate === value;
+    remoteState.current.rate = undefined;
+    if (!isRemote) sync?.broadcast('rate');
+  });
+
+  syncTarget.current = {
+    getState: () => ({isPlaying, position, rate}),
+    apply: (state, action, by) => {
+      if (state.isPlaying !== isPlaying) {
+        remoteState.current.isPlaying = state.isPlaying;
+        options.setPlaying(state.isPlaying);
+      }
+      if (state.rate !== rate) {
+        remoteState.current.rate = state.rate;
+        options.setRate(state.rate);
+      }
+      if (
+        action === 'seek' ||
+        Math.abs(state.position - position) > SYNC_SEEK_TOLERANCE
+      ) {
+        options.seek(state.position);
+      }
+      setPausedBy(action === 'pause' ? by : null);
+      if (action === 'pause') announce(labels.pausedBy(by));
+    },
+    seek: options.seek,
+    nudge: setRateFactor,
+  };
+
+  return {
+    //multiplies the rate of the playback while the controller nudges it
+    rateFactor,
+    //name of the device that paused the playback, null once it plays again
+    pausedBy,
+    //sends a seek of the local user to the other devices
+    broadcastSeek: (seekPosition: number) =>
+      sync?.broadcast('seek', {position: seekPosition}),
+  };
+}
@@ -0,0 +1,18 @@
+import {useEffect, useRef} from 'react';
+
+/**
+ * @description calls the listener whenever the value differs from the one of the previous render,
+ * the value of the very first render is not reported
+ */
+export default function useValueChange<T>(
+  value: T,
+  listener: (value: T) => void,
+) {
+  const previousValue = useRef<T>(value);
+  useEffect(() => {
+    if (previousValue.current !== value) {
+      previousValue.current = value;
+      listener(value);
+    }
+  }, [value]);
+}
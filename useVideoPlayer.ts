@@ -0,0 +1,1621 @@
+import React, {
+  createContext,
+  RefObject,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import {
+  AccessibilityInfo,
+  Dimensions,
+  Platform,
+  ScrollView,
+  View,
+} from 'react-native';
+import Video, {
+  LoadError,
+  OnBufferData,
+  OnLoadData,
+  OnProgressData,
+  OnSeekData,
+} from 'react-native-video';
+import Orientation from 'react-native-orientation';
+import SystemSetting from 'react-native-system-setting';
+import {useFocusEffect} from '@react-navigation/core';
+import {Immersive} from 'react-native-immersive';
+import DeviceInfo from 'react-native-device-info';
+import {
+  getNextIndex,
+  getPreviousIndex,
+  LoopMode,
+  PlaylistItem,
+} from './playlist';
+import {Cue, loadTextTrack, TextTrack} from './captions';
+import {
+  AudioTrack,
+  AUTO_VIDEO_TRACK,
+  SelectedAudioTrack,
+  SelectedVideoTrack,
+  SYSTEM_AUDIO_TRACK,
+  VideoTrack,
+} from './settings';
+import {
+  classifyError,
+  getRetryConfig,
+  getRetryDelay,
+  isRetriable,
+  PlayerError,
+  RetryConfig,
+} from './errors';
+import {PositionStorage} from './resumeStorage';
+import {loadThumbnails, Thumbnail, ThumbnailTrack} from './thumbnails';
+import {
+  Chapter,
+  ChaptersTrack,
+  getChapterIndexAt,
+  getNextChapterStart,
+  getPreviousChapterStart,
+  loadChapters,
+  Marker,
+  normalizeChapters,
+} from './chapters';
+import {announce, VideoPlayerLabels} from './accessibility';
+import {FeedPlayerControls} from './feed';
+import {
+  getSourceCandidates,
+  getSourceKey,
+  VideoSource,
+  VideoSourceInput,
+} from './sources';
+import {SyncController} from './sync';
+import {
+  getInitialVolumeState,
+  VolumeAction,
+  volumeReducer,
+  VolumeState,
+} from './volume';
+import {useVideoPlayerFeed} from './VideoPlayerProvider';
+import {
+  getStrings,
+  VideoPlayerStringOverrides,
+  VideoPlayerStrings,
+} from './strings';
+import {msToTime, TimeFormatter} from './time';
+import {
+  AnalyticsReporter,
+  createPlaybackSession,
+  PlaybackSession,
+  SessionEndReason,
+} from './analytics';
+import {getKeyCommand, KEY_SEEK_STEP, KeyMap, mergeKeyMap} from './keyboard';
+import {
+  DEFAULT_LIVE_EDGE_TOLERANCE,
+  getLiveLatency,
+  getLiveWindow,
+  getSeekRatio,
+  isDvrWindow,
+  isLiveStream,
+  LiveMode,
+  LiveWindow,
+} from './live';
+import {
+  ABRepeat,
+  ClipRange,
+  getClipRange,
+  getLoopBackTime,
+  hasReachedEnd,
+  toggleABRepeat,
+} from './clip';
+import {AdPlayback, AdsConfig} from './ads';
+import useValueChange from './useValueChange';
+import useAds from './useAds';
+import useSourceFallback from './useSourceFallback';
+import useSync from './useSync';
+import useResume from './useResume';
+
+const {width} = Dimensions.get('screen');
+
+//id of the players of a feed that have no feedKey
+let feedPlayerCount = 0;
+/**
+ * @description options of useVideoPlayer, they have the same meaning as the VideoPlayer props of the same name
+ * @param {string} rootViewBgColor - background color of the root element of the screen, defaults to #fff in
+ *        portrait and #000 in full screen
+ */
+export type UseVideoPlayerOptions = {
+  src?: VideoSourceInput;
+  sourceStartupTimeout?: number;
+  onSourceReady?: (source: VideoSource | number, index: number) => void;
+  onSourceError?: (
+    error: LoadError,
+    source: VideoSource | number,
+    index: number,
+    isFallingBack: boolean,
+  ) => void;
+  playlist?: PlaylistItem[];
+  initialPlaylistIndex?: number;
+  loopMode?: LoopMode;
+  loop?: boolean;
+  startTime?: number;
+  endTime?: number;
+  autoplayNext?: boolean;
+  upNextCountdown?: number;
+  onPlaylistIndexChange?: (index: number, item: PlaylistItem) => void;
+  textTracks?: TextTrack[];
+  defaultTextTrack?: number;
+  onTextTrackChange?: (index: number | null) => void;
+  rate?: number;
+  onRateChange?: (rate: number) => void;
+  selectedVideoTrack?: SelectedVideoTrack;
+  onVideoTrackChange?: (track: SelectedVideoTrack) => void;
+  selectedAudioTrack?: SelectedAudioTrack;
+  onAudioTrackChange?: (track: SelectedAudioTrack) => void;
+  retryConfig?: RetryConfig;
+  resumeKey?: string;
+  resumeStorage?: PositionStorage;
+  resumeSaveInterval?: number;
+  resumeCompletionThreshold?: number;
+  resumePrompt?: boolean;
+  previewThumbnails?: ThumbnailTrack;
+  chapters?: Chapter[];
+  chaptersTrack?: ChaptersTrack;
+  markers?: Marker[];
+  onChapterChange?: (chapter: Chapter | null) => void;
+  accessibilityLabels?: Partial<VideoPlayerLabels>;
+  locale?: string;
+  strings?: VideoPlayerStringOverrides;
+  timeFormatter?: TimeFormatter;
+  showRemainingTime?: boolean;
+  analyticsReporter?: AnalyticsReporter;
+  keyMap?: KeyMap;
+  liveMode?: LiveMode;
+  ads?: AdsConfig;
+  liveDvrWindow?: number;
+  liveEdgeTolerance?: number;
+  remoteControls?: boolean;
+  feedKey?: string;
+  lazy?: boolean;
+  sync?: SyncController;
+  controls?: boolean;
+  autoplay?: boolean;
+  height?: number;
+  thumbnailPath?: string;
+  fullScreenMode?: FullScreenMode;
+  fullScreenOrientation?: FullScreenOrientation;
+  fullScreenOnRotate?: boolean;
+  rootElementRef?: RefObject<View>;
+  rootViewBgColor?: string;
+  scrollViewRef?: RefObject<ScrollView>;
+  androidPaddingVertical?: number;
+  onPlay?: () => void;
+  onPause?: () => void;
+  onEnd?: () => void;
+  onSeek?: (from: number, to: number) => void;
+  onProgress?: (currentTime: number, duration: number) => void;
+  onBuffering?: (isBuffering: boolean) => void;
+  onError?: (error: LoadError) => void;
+  onFullScreenChange?: (isFullScreen: boolean) => void;
+  onMuteChange?: (isMute: boolean) => void;
+  volume?: number;
+  muted?: boolean;
+  startMuted?: boolean;
+  followSystemVolume?: boolean;
+  onVolumeChange?: (volume: number) => void;
+  onControlsVisibilityChange?: (isVisible: boolean) => void;
+};
+
+export type VideoPlayerMenu = 'captions' | 'settings' | 'volume';
+
+/**
+ * @description modal - the player is rendered in a Modal covering the screen, legacy - the player is made absolute
+ * and the root element and scroll view of the screen are patched through rootElementRef and scrollViewRef
+ */
+export type FullScreenMode = 'modal' | 'legacy';
+
+/**
+ * @description landscape - locks to landscape, sensor - follows the device, video - locks to the orientation of the video
+ */
+export type FullScreenOrientation = 'landscape' | 'sensor' | 'video';
+
+type Size = {width: number; height: number};
+
+/**
+ * @description state and actions of a video player, returned by useVideoPlayer. Spread videoProps on a
+ * react-native-video Video element and build the controls from the rest, times are in seconds
+ */
+export type VideoPlayerState = {
+  videoProps: {
+    ref: RefObject<Video>;
+    source: {uri?: string} | number;
+    poster?: string;
+    paused: boolean;
+    muted: boolean;
+    volume: number;
+    rate: number;
+    selectedVideoTrack: SelectedVideoTrack;
+    selectedAudioTrack: SelectedAudioTrack;
+    onLoad: (data: OnLoadData) => void;
+    onReadyForDisplay: () => void;
+    onProgress: (data: OnProgressData) => void;
+    onEnd: () => void;
+    onBuffer: (data: OnBufferData) => void;
+    onSeek: (data: OnSeekData) => void;
+    onError: (error: LoadError) => void;
+  };
+  //id of the current playback session, every analytics event of the session carries it. null until the Video mounts
+  sessionId: string | null;
+  //index of the source that is played among the candidates of src
+  sourceIndex: number;
+  //the VideoPlayerProvider holds the source back until the player has been visible
+  isSourceDeferred: boolean;
+  //lazy mode only shows the poster until the user starts the playback
+  isPosterShown: boolean;
+  //name of the device of the watch together session that paused the playback, null once it plays again
+  syncPausedBy: string | null;
+  isPlaying: boolean;
+  isLoading: boolean;
+  isVideoReady: boolean;
+  currentTime: number;
+  duration: number;
+  //position of the playback between 0 and 1, within the dvr window for live streams
+  seekRatio: number;
+  isSeeking: boolean;
+  isLive: boolean;
+  //live stream that can be seeked within liveWindow
+  isDvr: boolean;
+  //false during ads and on live streams without dvr, seeking does nothing then
+  canSeek: boolean;
+  liveWindow: LiveWindow | null;
+  //seconds behind the live edge
+  liveLatency: number;
+  isBehindLive: boolean;
+  //ad playing in place of the content, seeking is off while it plays
+  ad: AdPlayback | null;
+  //range of the startTime and endTime options, the seek bar and the time labels cover only this range
+  clip: ClipRange | null;
+  abRepeat: ABRepeat | null;
+  isMute: boolean;
+  volume: number;
+  isFullScreen: boolean;
+  fullScreenMode: FullScreenMode;
+  isStatusBarHidden: boolean;
+  screenWidth: number;
+  screenHeight: number;
+  controls: boolean;
+  showControls: boolean;
+  isScreenReaderEnabled: boolean;
+  //every text the player shows or reads out, in the language of the locale option
+  labels: VideoPlayerStrings;
+  formatTime: TimeFormatter;
+  //whether the time labels show the time left instead of the duration
+  isRemainingTimeShown: boolean;
+  error: PlayerError | null;
+  hasError: boolean;
+  isAutoRetrying: boolean;
+  retryAttempt: number;
+  maxRetryAttempts: number;
+  playlist?: PlaylistItem[];
+  playlistIndex: number;
+  nextIndex: number | null;
+  previousIndex: number | null;
+  upNextCountdown: number | null;
+  textTracks: TextTrack[];
+  selectedTextTrack: number | null;
+  captionCues: Cue[];
+  rate: number;
+  videoTracks: VideoTrack[];
+  audioTracks: AudioTrack[];
+  selectedVideoTrack: SelectedVideoTrack;
+  selectedAudioTrack: SelectedAudioTrack;
+  thumbnails: Thumbnail[];
+  chapters: Required<Chapter>[];
+  currentChapterIndex: number;
+  markers: Marker[];
+  resumePromptPosition: number | null;
+  openMenu: VideoPlayerMenu | null;
+  play: () => void;
+  pause: () => void;
+  togglePlay: () => void;
+  seekTo: (seconds: number, notify?: boolean) => void;
+  seekBy: (delta: number) => void;
+  goLive: () => void;
+  skipAd: () => void;
+  //sets A, then B, then turns the A–B repeat off, at the current position
+  toggleABRepeat: () => void;
+  setABRepeat: (a: number, b: number) => void;
+  clearABRepeat: () => void;
+  toggleRemainingTime: () => void;
+  beginSeek: () => void;
+  endSeek: (seconds: number) => void;
+  setMuted: (muted: boolean) => void;
+  toggleMute: () => void;
+  setVolume: (volume: number) => void;
+  toggleFullScreen: () => void;
+  //size of the area the player gets in full screen, reported by the modal once it is laid out
+  setFullScreenSize: (size: Size) => void;
+  toggleControls: () => void;
+  //pass these to the touch events of custom controls so they stay visible while being used
+  controlsTouchHandlers: {
+    onTouchStart: () => void;
+    onTouchEnd: () => void;
+  };
+  //pass these to the focusable custom controls, the controls do not hide while one of them has the focus
+  controlsFocusHandlers: {
+    onFocus: () => void;
+    onBlur: () => void;
+  };
+  //runs the command mapped to a key press, returns whether the key did something. focusNavigation is for
+  //TV remotes, whose arrows move the focus between the controls while they are shown
+  handleKey: (key: string | number, focusNavigation?: boolean) => boolean;
+  retry: () => void;
+  next: () => void;
+  previous: () => void;
+  playItem: (index: number) => void;
+  cancelUpNext: () => void;
+  selectTextTrack: (index: number | null) => void;
+  setRate: (rate: number) => void;
+  setSelectedVideoTrack: (track: SelectedVideoTrack) => void;
+  setSelectedAudioTrack: (track: SelectedAudioTrack) => void;
+  nextChapter: () => void;
+  previousChapter: () => void;
+  answerResumePrompt: (shouldResume: boolean) => void;
+  toggleMenu: (menu: VideoPlayerMenu) => void;
+  closeMenu: () => void;
+};
+
+type ScreenDimensionsObject = {
+  screenHeight: number;
+  screenWidth: number;
+};
+
+/**
+ * @description state that is controlled by the parent when value is passed and kept internally otherwise,
+ * onChange is called in both cases
+ */
+function useControllableState<T>(
+  value: T | undefined,
+  defaultValue: T,
+  onChange?: (value: T) => void,
+): [T, (value: T) => void] {
+  const [internalValue, setInternalValue] = useState<T>(value ?? defaultValue);
+  const setValue = (newValue: T) => {
+    if (value === undefined) {
+      setInternalValue(newValue);
+    }
+    onChange?.(newValue);
+  };
+  return [value ?? internalValue, setValue];
+}
+
+/**
+ * @description player used by the controls rendered below it, VideoPlayer provides its own player and a
+ * headless player can be passed down with VideoPlayerContext.Provider value={useVideoPlayer(options)}
+ */
+export const VideoPlayerContext = createContext<VideoPlayerState | null>(null);
+
+/**
+ * @description returns the player passed to a control, or the one of the closest VideoPlayerContext
+ */
+export const useVideoPlayerContext = (player?: VideoPlayerState) => {
+  const contextPlayer = useContext(VideoPlayerContext);
+  const result = player ?? contextPlayer;
+  if (!result) {
+    throw new Error(
+      'Video player controls must be rendered inside a VideoPlayer or get the player prop',
+    );
+  }
+  return result;
+};
+
+/**
+ * @description the state machine of the video player without any UI: playback, seeking, buffering,
+ * auto-hiding controls, volume, full screen, retries, playlist, captions, settings, resume and chapters
+ */
+export default function useVideoPlayer(
+  options: UseVideoPlayerOptions,
+): VideoPlayerState {
+  const {
+    autoplay,
+    height,
+    src,
+    controls,
+    rootElementRef,
+    rootViewBgColor,
+    thumbnailPath,
+    scrollViewRef,
+    androidPaddingVertical,
+    playlist,
+  } = options;
+
+  const loopMode: LoopMode =
+    options.loopMode ?? (options.loop ? 'one' : 'none');
+  const autoplayNext = options.autoplayNext ?? true;
+  const upNextCountdownSeconds = options.upNextCountdown ?? 0;
+  const fullScreenMode = options.fullScreenMode ?? 'legacy';
+  const fullScreenOrientation = options.fullScreenOrientation ?? 'landscape';
+  const fullScreenOnRotate = options.fullScreenOnRotate ?? false;
+  const remoteControls = options.remoteControls ?? Platform.isTV;
+  const followSystemVolume = options.followSystemVolume ?? false;
+  const keyMap = useMemo(() => mergeKeyMap(options.keyMap), [options.keyMap]);
+  const labels = getStrings(options.locale, {
+    ...options.accessibilityLabels,
+    ...options.strings,
+  });
+  const formatTime = options.timeFormatter ?? msToTime;
+  const feed = useVideoPlayerFeed();
+  const ownFeedId = useRef(`player-${feedPlayerCount++}`);
+  const feedId = options.feedKey ?? ownFeedId.current;
+  //players with a feedKey are started and paused by the feed
+  const isFeedTracked = !!feed && options.feedKey !== undefined;
+  const feedControls = useRef<FeedPlayerControls | null>(null);
+
+  const playerRef = useRef<Video>(null);
+  const [screenDimensions, setScreenDimensions] =
+    useState<ScreenDimensionsObject>({
+      screenHeight: height ?? 300,
+      screenWidth: width,
+    });
+  const [isRetry, setIsRetry] = useState(false);
+  const [playerError, setPlayerError] = useState<PlayerError | null>(null);
+  const [retryAttempt, setRetryAttempt] = useState<number>(0);
+  const [isAutoRetrying, setIsAutoRetrying] = useState(false);
+  const [thumbnails, setThumbnails] = useState<Thumbnail[]>([]);
+  const [loadedChapters, setLoadedChapters] = useState<Chapter[]>([]);
+  const [isStatusBarHidden, setIsStatusBarHidden] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLiveDetected, setIsLiveDetected] = useState(false);
+  const [isRemainingTimeShown, setIsRemainingTimeShown] = useState(
+    options.showRemainingTime ?? false,
+  );
+  const [abRepeat, setABRepeat] = useState<ABRepeat | null>(null);
+  const [isFullScreen, setIsFullScreen] = useState(false);
+  const [fullScreenSize, setFullScreenSize] = useState<Size | null>(null);
+  const [isPlaying, setIsPlaying] = useState<boolean>(
+    !isFeedTracked && !options.lazy && (autoplay ?? true),
+  );
+  const [isPosterShown, setIsPosterShown] = useState(!!options.lazy);
+  const [isSourceDeferred, setIsSourceDeferred] = useState(
+    () => isFeedTracked && !!feed?.shouldDeferLoad(feedId),
+  );
+  const [isVideoReady, setisVideaoReady] = useState(false);
+  const [videoDuration, setVideoDuration] = useState<number>(0);
+  const [videoSeek, setVideoSeek] = useState<number>(0);
+  const [showControls, setShowControls] = useState<boolean>(false);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [isScreenReaderEnabled, setIsScreenReaderEnabled] = useState(false);
+  const [isSeekBarBusy, setIsSeekBarBusy] = useState<boolean>(false);
+  const [volumeState, setVolumeState] = useState<VolumeState>(() =>
+    getInitialVolumeState(options.volume, options.muted ?? options.startMuted),
+  );
+
+  const [playlistIndex, setPlaylistIndex] = useState<number>(
+    options.initialPlaylistIndex ?? 0,
+  );
+  const [upNextCountdown, setUpNextCountdown] = useState<number | null>(null);
+  const [selectedTextTrack, setSelectedTextTrack] = useState<number | null>(
+    options.defaultTextTrack ?? null,
+  );
+  const [captionCues, setCaptionCues] = useState<Cue[]>([]);
+  const [openMenu, setOpenMenu] = useState<VideoPlayerMenu | null>(null);
+  const [videoTracks, setVideoTracks] = useState<VideoTrack[]>([]);
+  const [audioTracks, setAudioTracks] = useState<AudioTrack[]>([]);
+  const [rate, setRate] = useControllableState(
+    options.rate,
+    1,
+    options.onRateChange,
+  );
+  const [selectedVideoTrack, setSelectedVideoTrack] = useControllableState(
+    options.selectedVideoTrack,
+    AUTO_VIDEO_TRACK,
+    options.onVideoTrackChange,
+  );
+  const [selectedAudioTrack, setSelectedAudioTrack] = useControllableState(
+    options.selectedAudioTrack,
+    SYSTEM_AUDIO_TRACK,
+    options.onAudioTrackChange,
+  );
+
+  //the volume and muted options win over the state when they are passed
+  const currentVolumeState: VolumeState = {
+    ...volumeState,
+    volume: options.volume ?? volumeState.volume,
+    isMute: options.muted ?? volumeState.isMute,
+  };
+  const {isMute, volume} = currentVolumeState;
+  //mute onMuteChange was called with, a change of the muted option that it already reported is not reported again
+  const reportedMute = useRef(isMute);
+
+  const dispatchVolume = (action: VolumeAction) => {
+    const nextVolumeState = volumeReducer(currentVolumeState, action);
+    setVolumeState(nextVolumeState);
+    if (nextVolumeState.volume !== volume) {
+      options.onVolumeChange?.(nextVolumeState.volume);
+    }
+    if (nextVolumeState.isMute !== isMute) {
+      reportedMute.current = nextVolumeState.isMute;
+      options.onMuteChange?.(nextVolumeState.isMute);
+    }
+    if (followSystemVolume && action.type === 'setVolume') {
+      SystemSetting.setVolume(nextVolumeState.volume, {showUI: false});
+    }
+  };
+  //the volume listeners outlive the render they were added in
+  const latestVolume = useRef({dispatchVolume, followSystemVolume});
+  latestVolume.current = {dispatchVolume, followSystemVolume};
+  const playlistLength = playlist?.length ?? 0;
+  const currentItem = playlist?.[playlistIndex];
+  const sourceCandidates = getSourceCandidates(currentItem?.src ?? src);
+  //the first candidate stands for the whole source, falling back does not start a new one
+  const sourceKey = getSourceKey(sourceCandidates[0]);
+  const posterPath = currentItem?.thumbnailPath ?? thumbnailPath;
+  const textTracks = currentItem?.textTracks ?? options.textTracks ?? [];
+  const resumeKey = currentItem?.resumeKey ?? options.resumeKey;
+  const thumbnailTrack =
+    currentItem?.previewThumbnails ?? options.previewThumbnails;
+  const chaptersTrack = currentItem?.chaptersTrack ?? options.chaptersTrack;
+  const chapters = normalizeChapters(
+    currentItem?.chapters ?? options.chapters ?? loadedChapters,
+    videoDuration,
+  );
+  const markers = currentItem?.markers ?? options.markers ?? [];
+  const currentChapterIndex = getChapterIndexAt(
+    chapters,
+    videoSeek * videoDuration,
+  );
+  const liveMode = options.liveMode ?? 'auto';
+  const isLive =
+    liveMode === 'live' ||
+    liveMode === 'dvr' ||
+    (liveMode === 'auto' && isLiveDetected);
+  //for live streams videoDuration follows the seekable end, the live edge
+  const liveWindow = isLive
+    ? getLiveWindow(videoDuration, options.liveDvrWindow)
+    : null;
+  //a forced live stream never gets seeking, only auto mode looks at the size of the window
+  const isDvr =
+    liveMode === 'dvr' ||
+    (liveMode === 'auto' && !!liveWindow && isDvrWindow(liveWindow));
+  const liveLatency = liveWindow
+    ? getLiveLatency(videoSeek * videoDuration, liveWindow)
+    : 0;
+  const isBehindLive =
+    isDvr &&
+    liveLatency > (options.liveEdgeTolerance ?? DEFAULT_LIVE_EDGE_TOLERANCE);
+  const clip = isLive
+    ? null
+    : getClipRange(options.startTime, options.endTime, videoDuration);
+  const clipStart = clip?.start ?? 0;
+  //the playback counts as ended once it is at the end of the clip
+  const endRatio = clip && videoDuration > 0 ? clip.end / videoDuration : 1;
+  const currentTextTrack =
+    selectedTextTrack !== null ? textTracks[selectedTextTrack] : undefined;
+  const nextIndex = getNextIndex(playlistIndex, playlistLength, loopMode);
+  const previousIndex = getPreviousIndex(
+    playlistIndex,
+    playlistLength,
+    loopMode,
+  );
+
+  const retryTimer = useRef<any>(null);
+  const lastPosition = useRef<number>(0);
+  const resumePosition = useRef<number | null>(null);
+  //seconds behind the live edge a dvr stream continues from once its edge is known again
+  const liveResumeLatency = useRef<number | null>(null);
+  const naturalSize = useRef<Size | null>(null);
+  const retryConfig = getRetryConfig(options.retryConfig);
+
+  const analyticsReporter = useRef(options.analyticsReporter);
+  analyticsReporter.current = options.analyticsReporter;
+  const session = useRef<PlaybackSession | null>(null);
+
+  const startSession = () => {
+    //the reporter is read on every report so it can be passed inline
+    session.current = createPlaybackSession({
+      reportEvent: event => analyticsReporter.current?.reportEvent?.(event),
+      reportSummary: summary =>
+        analyticsReporter.current?.reportSummary?.(summary),
+    });
+    setSessionId(session.current.sessionId);
+  };
+
+  const endSession = (reason: SessionEndReason) => {
+    session.current?.end(reason);
+    session.current = null;
+  };
+
+  //declared before the session effect so that its cleanup runs first on unmount
+  useEffect(() => () => endSession('unmount'), []);
+
+  //the Video is not mounted behind the lazy poster or while the feed defers the source
+  const isVideoMounted = !isPosterShown && !isSourceDeferred;
+
+  //the startup time is measured from the mount of the Video, not from the mount of the player
+  useEffect(() => {
+    if (!isVideoMounted) {
+      return;
+    }
+    startSession();
+    return () => endSession('sourceChange');
+  }, [playlistIndex, sourceKey, isVideoMounted]);
+
+  useEffect(() => {
+    setIsLiveDetected(false);
+    setABRepeat(null);
+    liveResumeLatency.current = null;
+  }, [playlistIndex, sourceKey]);
+
+  //declared before the focus effect so that the player leaves the feed before its blur on unmount
+  useEffect(() => {
+    if (!feed) {
+      return;
+    }
+    return feed.register(
+      feedId,
+      {
+        play: () => feedControls.current?.play(),
+        pause: () => feedControls.current?.pause(),
+        load: () => feedControls.current?.load(),
+      },
+      {isTracked: isFeedTracked, autoplay: autoplay ?? true},
+    );
+  }, [feed, feedId]);
+
+  useEffect(() => {
+    feed?.setPlaying(feedId, isPlaying);
+  }, [feed, feedId, isPlaying]);
+
+  const ads = useAds({
+    config: options.ads,
+    playlistIndex,
+    sourceKey,
+    isSourceDeferred,
+    duration: videoDuration,
+    playerRef,
+    getContentPosition: () => lastPosition.current,
+    onAdStart: () => setIsLoading(true),
+    onAdPlaying: () => {
+      if (isLoading) setIsLoading(false);
+    },
+    onBreakEnd: contentPosition => {
+      //the content source comes back, onLoad continues it where the break started
+      resumePosition.current = contentPosition;
+      setIsLoading(true);
+      setIsPlaying(true);
+    },
+    onPostRollEnd: () => {
+      //the content already ended, onLoad starts it from the beginning instead of seeking back to its end and
+      //ending it a second time after a restart
+      resumePosition.current = null;
+      finishContent();
+    },
+  });
+  const {currentAd} = ads;
+  //ads and live streams without dvr cannot be seeked
+  const canSeek = !currentAd && (!isLive || isDvr);
+
+  //the end of the clip was handled and the seek back to its start has not landed yet
+  const isClipEndPending = useRef(false);
+  const sourceFallback = useSourceFallback({
+    candidates: sourceCandidates,
+    playlistIndex,
+    isWaiting: isVideoMounted && !currentAd && !isRetry,
+    startupTimeout: options.sourceStartupTimeout,
+    onFallBack: () => {
+      //the next candidate continues from the same position
+      resumePosition.current = lastPosition.current;
+      setIsLoading(true);
+    },
+    onSourceReady: options.onSourceReady,
+  });
+  const {sourceIndex} = sourceFallback;
+
+  const onVideoError = (err: LoadError) => {
+    const error = classifyError(err, labels.errors);
+    session.current?.error(error.type, error.message);
+    const isFallingBack = sourceFallback.fallBack();
+    options.onSourceError?.(
+      err,
+      sourceFallback.source,
+      sourceFallback.sourceIndex,
+      isFallingBack,
+    );
+    if (isFallingBack) {
+      return;
+    }
+    //a retry tries the candidates from the first one again
+    sourceFallback.reset();
+    resumePosition.current = lastPosition.current;
+    setPlayerError(error);
+    setIsRetry(true);
+    announce(error.message);
+    options.onError?.(err);
+    if (retryTimer.current) clearTimeout(retryTimer.current);
+    if (isRetriable(error) && retryAttempt < retryConfig.maxAttempts) {
+      const attempt = retryAttempt + 1;
+      setRetryAttempt(attempt);
+      setIsAutoRetrying(true);
+      retryTimer.current = setTimeout(() => {
+        setIsAutoRetrying(false);
+        setIsRetry(false);
+      }, getRetryDelay(attempt, retryConfig));
+    } else {
+      setIsAutoRetrying(false);
+    }
+  };
+
+  const isBufferingRef = useRef<boolean>(false);
+  const seekStartTime = useRef<number | null>(null);
+
+  useValueChange(isPlaying && isVideoReady, isPlayingNow => {
+    if (isPlayingNow) {
+      options.onPlay?.();
+    } else {
+      options.onPause?.();
+    }
+  });
+
+  useValueChange(isFullScreen, value => {
+    session.current?.fullScreen(value);
+    options.onFullScreenChange?.(value);
+  });
+
+  const syncState = useSync({
+    sync: options.sync,
+    isPlaying,
+    rate,
+    position: videoSeek * videoDuration,
+    labels,
+    setPlaying: setIsPlaying,
+    setRate,
+    seek: position => seekTo(position, false),
+  });
+
+  useValueChange(isMute, value => {
+    session.current?.mute(value);
+    if (value !== reportedMute.current) options.onMuteChange?.(value);
+  });
+
+  //runs after the mute listener, a mute the muted option did not take counts as not reported
+  useEffect(() => {
+    reportedMute.current = isMute;
+  });
+
+  let hideControlsTimer = useRef<any>(null);
+  //the controls do not hide while one of them has the focus, a screen reader or a TV remote would lose it
+  const isControlsFocused = useRef<boolean>(false);
+
+  useValueChange(showControls, value => {
+    if (!value) {
+      setOpenMenu(null);
+      //the focused control unmounts with the controls without a blur
+      isControlsFocused.current = false;
+    }
+    options.onControlsVisibilityChange?.(value);
+  });
+
+  const hideControlsLater = () => {
+    if (hideControlsTimer.current) clearTimeout(hideControlsTimer.current);
+    hideControlsTimer.current = setTimeout(() => {
+      if (!isControlsFocused.current) setShowControls(false);
+    }, 3000);
+  };
+
+  useEffect(() => {
+    let isActive = true;
+    AccessibilityInfo.isScreenReaderEnabled().then(isEnabled => {
+      if (isActive) setIsScreenReaderEnabled(isEnabled);
+    });
+    const screenReaderListener = AccessibilityInfo.addEventListener(
+      'screenReaderChanged',
+      setIsScreenReaderEnabled,
+    );
+    return () => {
+      isActive = false;
+      screenReaderListener.remove();
+    };
+  }, []);
+
+  useValueChange(isScreenReaderEnabled, isEnabled => {
+    if (isEnabled && controls && isVideoReady) {
+      setShowControls(true);
+      hideControlsLater();
+    }
+  });
+
+  useEffect(() => {
+    let isActive = true;
+    const unsubscribeDimensions = Dimensions.addEventListener('change', e => {
+      if (fullScreenMode === 'modal') {
+        //the size in full screen comes from the layout of the modal, only the inline width follows the screen
+        if (isActive) {
+          setScreenDimensions({
+            screenWidth: e.window.width,
+            screenHeight: options.height ?? 300,
+          });
+        }
+        return;
+      }
+      const {width, height} = e.screen;
+      let finalHeight = height;
+      let finalWidth = width;
+      if (height > width) {
+        finalHeight = options.height ?? 300;
+        let rootStyle: {backgroundColor: string; paddingVertical?: number} = {
+          backgroundColor: rootViewBgColor ?? '#fff',
+        };
+        if (Platform.OS === 'android') {
+          rootStyle.paddingVertical = androidPaddingVertical ?? 48;
+        }
+        rootElementRef?.current?.setNativeProps({
+          style: rootStyle,
+        });
+        scrollViewRef?.current?.setNativeProps({
+          scrollEnabled: true,
+        });
+      } else {
+        //fix for the issue when screen content is less that the full screen height then video player height reduces
+        scrollViewRef?.current?.setNativeProps({
+          contentContainerStyle: {
+            flex: 1,
+          },
+          scrollEnabled: false,
+        });
+        scrollViewRef?.current?.scrollTo({x: 0, y: 0, animated: false});
+        let rootStyle: {backgroundColor: string; paddingVertical?: number} = {
+          backgroundColor: rootViewBgColor ?? '#000',
+        };
+        if (Platform.OS === 'android') {
+          rootStyle.paddingVertical = 0;
+        }
+        rootElementRef?.current?.setNativeProps({
+          style: rootStyle,
+        });
+        if (DeviceInfo.hasNotch()) {
+          finalWidth = width - 75;
+        }
+      }
+      if (isActive) {
+        setScreenDimensions({
+          screenWidth: finalWidth,
+          screenHeight: finalHeight,
+        });
+      }
+    });
+
+    return () => {
+      isActive = false;
+      if (hideControlsTimer.current) {
+        clearTimeout(hideControlsTimer.current);
+      }
+      if (retryTimer.current) {
+        clearTimeout(retryTimer.current);
+      }
+      unsubscribeDimensions.remove();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!followSystemVolume) {
+      return;
+    }
+    const volumeListener = SystemSetting.addVolumeListener(data =>
+      latestVolume.current.dispatchVolume({
+        type: 'systemVolume',
+        volume: data.value,
+      }),
+    );
+    return () => SystemSetting.removeVolumeListener(volumeListener);
+  }, [followSystemVolume]);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      let isActive = true;
+
+      //the volume listener misses the changes made while the screen was in the background
+      if (latestVolume.current.followSystemVolume) {
+        SystemSetting.getVolume()
+          .then(systemVolume => {
+            if (isActive) {
+              latestVolume.current.dispatchVolume({
+                type: 'systemVolume',
+                volume: systemVolume,
+              });
+            }
+          })
+          .catch(() => {});
+      }
+      feed?.focus(feedId);
+
+      return () => {
+        isActive = false;
+        feed?.blur(feedId);
+      };
+    }, [feed, feedId]),
+  );
+
+  useEffect(() => {
+    if (upNextCountdown === null) {
+      return;
+    }
+    if (upNextCountdown <= 0) {
+      if (nextIndex !== null) playItem(nextIndex);
+      return;
+    }
+    const countdownTimer = setTimeout(() => {
+      setUpNextCountdown(upNextCountdown - 1);
+    }, 1000);
+    return () => clearTimeout(countdownTimer);
+  }, [upNextCountdown]);
+
+  useEffect(() => {
+    let isActive = true;
+    setCaptionCues([]);
+    if (currentTextTrack) {
+      loadTextTrack(currentTextTrack)
+        .then(cues => {
+          if (isActive) setCaptionCues(cues);
+        })
+        .catch(() => {});
+    }
+    return () => {
+      isActive = false;
+    };
+  }, [currentTextTrack?.uri, currentTextTrack?.content]);
+
+  useEffect(() => {
+    let isActive = true;
+    setThumbnails([]);
+    if (thumbnailTrack) {
+      loadThumbnails(thumbnailTrack)
+        .then(frames => {
+          if (isActive) setThumbnails(frames);
+        })
+        .catch(() => {});
+    }
+    return () => {
+      isActive = false;
+    };
+  }, [thumbnailTrack?.uri, thumbnailTrack?.content]);
+
+  useEffect(() => {
+    let isActive = true;
+    setLoadedChapters([]);
+    if (chaptersTrack) {
+      loadChapters(chaptersTrack)
+        .then(list => {
+          if (isActive) setLoadedChapters(list);
+        })
+        .catch(() => {});
+    }
+    return () => {
+      isActive = false;
+    };
+  }, [chaptersTrack?.uri, chaptersTrack?.content]);
+
+  useValueChange(currentChapterIndex, index =>
+    options.onChapterChange?.(index >= 0 ? chapters[index] : null),
+  );
+
+  const seekToNextChapter = () => {
+    const start = getNextChapterStart(chapters, videoSeek * videoDuration);
+    if (start !== null) seekTo(start);
+  };
+
+  const seekToPreviousChapter = () => {
+    seekTo(getPreviousChapterStart(chapters, videoSeek * videoDuration) ?? 0);
+  };
+
+  const selectTextTrack = (index: number | null) => {
+    setOpenMenu(null);
+    if (index !== selectedTextTrack) {
+      setSelectedTextTrack(index);
+      options.onTextTrackChange?.(index);
+    }
+  };
+
+  const toggleMenu = (menu: VideoPlayerMenu) => {
+    setOpenMenu(openMenu === menu ? null : menu);
+  };
+
+  const resume = useResume({
+    resumeKey,
+    storage: options.resumeStorage,
+    saveInterval: options.resumeSaveInterval,
+    completionThreshold: options.resumeCompletionThreshold,
+    prompt: options.resumePrompt,
+    duration: videoDuration,
+    isLive,
+    isPlaying,
+    getPosition: () => lastPosition.current,
+    seek: position => seekTo(position, false),
+    setPlaying: setIsPlaying,
+  });
+
+  const restart = () => {
+    if (!session.current && isVideoMounted) startSession();
+    setVideoSeek(videoDuration > 0 ? clipStart / videoDuration : 0);
+    playerRef.current?.seek(clipStart);
+  };
+
+  const playItem = (index: number) => {
+    if (!playlist || index < 0 || index >= playlist.length) {
+      return;
+    }
+    setUpNextCountdown(null);
+    resetRetry();
+    setIsPlaying(true);
+    if (index === playlistIndex) {
+      restart();
+      return;
+    }
+    setIsLoading(true);
+    setVideoDuration(0);
+    setVideoSeek(0);
+    resume.savePosition();
+    lastPosition.current = 0;
+    resumePosition.current = null;
+    setPlaylistIndex(index);
+    options.onPlaylistIndexChange?.(index, playlist[index]);
+  };
+
+  const playNext = () => {
+    if (nextIndex !== null) playItem(nextIndex);
+  };
+
+  const playPrevious = () => {
+    //like most players, previous restarts the current video unless it has just started
+    if (videoSeek * videoDuration > 3 || previousIndex === null) {
+      restart();
+      setIsPlaying(true);
+      return;
+    }
+    playItem(previousIndex);
+  };
+
+  const handlePlayPause = () => {
+    setIsSourceDeferred(false);
+    setIsPosterShown(false);
+    setUpNextCountdown(null);
+    if (videoSeek >= endRatio && !isLive) {
+      if (!session.current) startSession();
+      setVideoSeek(videoDuration > 0 ? clipStart / videoDuration : 0);
+      playerRef.current?.seek(clipStart);
+      setTimeout(() => {
+        setIsPlaying(true);
+      }, 100);
+      return;
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const lockFullScreenOrientation = () => {
+    const size = naturalSize.current;
+    if (fullScreenOrientation === 'sensor') {
+      Orientation.unlockAllOrientations();
+    } else if (
+      fullScreenOrientation === 'video' &&
+      size &&
+      size.height > size.width
+    ) {
+      Orientation.lockToPortrait();
+    } else {
+      Orientation.lockToLandscape();
+    }
+  };
+
+  const handleFullScreen = () => {
+    if (fullScreenMode === 'modal') {
+      //the video gets mounted again inside or outside of the modal, it continues from the same position,
+      //of the ad while one plays and the same time behind the live edge for dvr streams
+      if (currentAd) {
+        ads.keepAdTime();
+      } else if (isLive) {
+        liveResumeLatency.current = isDvr ? liveLatency : null;
+      }
+      resumePosition.current = lastPosition.current;
+      setIsLoading(true);
+    }
+    if (isFullScreen) {
+      Immersive.off();
+      setIsFullScreen(false);
+      setFullScreenSize(null);
+      setIsStatusBarHidden(false);
+      setTimeout(() => {
+        Orientation.lockToPortrait();
+      }, 100);
+    } else {
+      setIsFullScreen(true);
+      lockFullScreenOrientation();
+      setIsStatusBarHidden(true);
+      Immersive.on();
+    }
+  };
+
+  const rotation = useRef({
+    enteredByRotation: false,
+    ignoreUntilPortrait: false,
+  });
+
+  const toggleFullScreen = () => {
+    //after leaving full screen by hand, rotating only enters it again once the device has been upright
+    rotation.current = {
+      enteredByRotation: false,
+      ignoreUntilPortrait: isFullScreen,
+    };
+    handleFullScreen();
+  };
+
+  const onDeviceOrientation = (
+    orientation: Orientation.specificOrientation,
+  ) => {
+    if (orientation === 'PORTRAIT') {
+      rotation.current.ignoreUntilPortrait = false;
+      if (isFullScreen && rotation.current.enteredByRotation) {
+        rotation.current.enteredByRotation = false;
+        handleFullScreen();
+      }
+    } else if (
+      orientation.startsWith('LANDSCAPE') &&
+      !isFullScreen &&
+      !rotation.current.ignoreUntilPortrait
+    ) {
+      rotation.current.enteredByRotation = true;
+      handleFullScreen();
+    }
+  };
+
+  //the orientation listener is added once, so it calls the handler of the latest render through this ref
+  const orientationHandler = useRef(onDeviceOrientation);
+  orientationHandler.current = onDeviceOrientation;
+
+  useEffect(() => {
+    if (!fullScreenOnRotate) {
+      return;
+    }
+    const listener = (orientation: Orientation.specificOrientation) =>
+      orientationHandler.current(orientation);
+    Orientation.addSpecificOrientationListener(listener);
+    return () => Orientation.removeSpecificOrientationListener(listener);
+  }, [fullScreenOnRotate]);
+
+  const onProgress = (data: OnProgressData) => {
+    if (isLoading) {
+      setIsLoading(false);
+    }
+    const isLiveProgress =
+      isLive ||
+      (liveMode === 'auto' &&
+        isLiveStream(videoDuration, data.seekableDuration));
+    if (isLiveProgress) {
+      if (!isLiveDetected) setIsLiveDetected(true);
+      setVideoDuration(data.seekableDuration);
+      if (liveResumeLatency.current !== null && data.seekableDuration > 0) {
+        //the position of this event is still the live edge the stream started at
+        const resumeWindow = getLiveWindow(
+          data.seekableDuration,
+          options.liveDvrWindow,
+        );
+        const position = Math.max(
+          resumeWindow.end - liveResumeLatency.current,
+          resumeWindow.start,
+        );
+        liveResumeLatency.current = null;
+        playerRef.current?.seek(position);
+        setVideoSeek(position / data.seekableDuration);
+        lastPosition.current = position;
+        return;
+      }
+    }
+    if (!isSeekBarBusy) {
+      setVideoSeek(data.currentTime / data.seekableDuration);
+    }
+    if (!isSeekBarBusy) ads.playDueBreak(data.currentTime);
+    lastPosition.current = data.currentTime;
+    session.current?.progress(data.currentTime);
+    if (clip && !hasReachedEnd(data.currentTime, clip.end)) {
+      isClipEndPending.current = false;
+    }
+    const loopBackTime = getLoopBackTime(data.currentTime, abRepeat);
+    if (loopBackTime !== null && !isSeekBarBusy) {
+      seekTo(loopBackTime, false);
+    } else if (
+      clip &&
+      isPlaying &&
+      !isSeekBarBusy &&
+      hasReachedEnd(data.currentTime, clip.end) &&
+      clip.end < videoDuration &&
+      !isClipEndPending.current
+    ) {
+      //the source goes on after the clip, its end is the end of the playback. A loop seeks back asynchronously,
+      //the progress events until the seek lands are still at the end
+      isClipEndPending.current = true;
+      onEnd();
+    }
+    options.onProgress?.(data.currentTime, videoDuration);
+  };
+
+  const onEnd = () => {
+    if (!ads.playPostRoll()) finishContent();
+  };
+
+  const finishContent = () => {
+    endSession('ended');
+    options.onEnd?.();
+    lastPosition.current = 0;
+    resume.removePosition();
+    if (loopMode === 'one' || (loopMode === 'all' && !playlist)) {
+      restart();
+      return;
+    }
+    if (nextIndex !== null && autoplayNext && upNextCountdownSeconds <= 0) {
+      playItem(nextIndex);
+      return;
+    }
+    announce(labels.ended);
+    setVideoSeek(endRatio);
+    setIsPlaying(false);
+    if (nextIndex !== null && autoplayNext) {
+      setUpNextCountdown(upNextCountdownSeconds);
+    }
+  };
+
+  const videoAreaClicked = () => {
+    if (controls) {
+      if (showControls === false) {
+        setShowControls(true);
+        hideControlsLater();
+      } else {
+        setShowControls(false);
+      }
+    }
+  };
+
+  const onLoad = (data: OnLoadData) => {
+    const isLiveLoad =
+      isLive || (liveMode === 'auto' && isLiveStream(data.duration));
+    if (isLiveLoad) {
+      setIsLiveDetected(true);
+      //the live edge comes with the first progress event, after a retry the stream starts there too and after a
+      //remount onProgress goes back behind it by liveResumeLatency
+      setVideoDuration(0);
+      setVideoTracks(data.videoTracks ?? []);
+      setAudioTracks(data.audioTracks ?? []);
+      setRetryAttempt(0);
+      naturalSize.current = data.naturalSize;
+      resumePosition.current = null;
+      return;
+    }
+    setVideoDuration(data.duration);
+    session.current?.duration(data.duration);
+    setVideoTracks(data.videoTracks ?? []);
+    setAudioTracks(data.audioTracks ?? []);
+    setRetryAttempt(0);
+    naturalSize.current = data.naturalSize;
+    //after a retry the playback continues where the error happened, a new source starts at the clip start
+    const startPosition = Math.min(
+      Math.max(
+        resumePosition.current ?? 0,
+        getClipRange(options.startTime, options.endTime, data.duration)
+          ?.start ?? 0,
+      ),
+      data.duration,
+    );
+    resumePosition.current = null;
+    if (playerRef.current) playerRef.current.seek(startPosition);
+    if (data.duration > 0) setVideoSeek(startPosition / data.duration);
+  };
+
+  const onTouchStart = () => {
+    if (hideControlsTimer.current) {
+      if (controls) clearTimeout(hideControlsTimer.current);
+    }
+  };
+
+  const onTouchEnd = () => {
+    if (controls) {
+      hideControlsLater();
+    }
+  };
+
+  const onControlsFocus = () => {
+    isControlsFocused.current = true;
+    clearTimeout(hideControlsTimer.current);
+  };
+
+  //moving the focus to another control blurs the previous one first, the timer is stopped again right away
+  const onControlsBlur = () => {
+    isControlsFocused.current = false;
+    if (controls) hideControlsLater();
+  };
+
+  const beginSeek = () => {
+    setIsSeekBarBusy(true);
+    seekStartTime.current = videoSeek * videoDuration;
+  };
+
+  const endSeek = (seconds: number) => {
+    setIsSeekBarBusy(false);
+    const newCurrentTime = seekTo(seconds, false);
+    if (newCurrentTime !== null) {
+      syncState.broadcastSeek(newCurrentTime);
+      if (seekStartTime.current !== null) {
+        session.current?.seekStart(seekStartTime.current, newCurrentTime);
+        options.onSeek?.(seekStartTime.current, newCurrentTime);
+      }
+    }
+    seekStartTime.current = null;
+  };
+
+  //returns the time it seeked to after clamping, null when seeking is blocked by an ad or a live stream without dvr
+  const seekTo = (seconds: number, notify: boolean = true) => {
+    if (!canSeek) {
+      return null;
+    }
+    const currentTime = videoSeek * videoDuration;
+    const newCurrentTime = Math.min(
+      Math.max(seconds, liveWindow?.start ?? clipStart),
+      clip?.end ?? videoDuration,
+    );
+    playerRef.current?.seek(newCurrentTime);
+    setVideoSeek(videoDuration > 0 ? newCurrentTime / videoDuration : 0);
+    if (notify && newCurrentTime !== currentTime) {
+      syncState.broadcastSeek(newCurrentTime);
+      session.current?.seekStart(currentTime, newCurrentTime);
+      options.onSeek?.(currentTime, newCurrentTime);
+    }
+    return newCurrentTime;
+  };
+
+  const onSeek = () => {
+    isClipEndPending.current = false;
+    session.current?.seekEnd();
+  };
+
+  const handleKey = (key: string | number, focusNavigation = false) => {
+    if (controls && isVideoReady) {
+      setShowControls(true);
+      hideControlsLater();
+    }
+    const command = getKeyCommand(key, keyMap, focusNavigation, showControls);
+    switch (command) {
+      case 'togglePlay':
+        handlePlayPause();
+        break;
+      case 'play':
+        if (!isPlaying) handlePlayPause();
+        break;
+      case 'pause':
+        if (isPlaying) setIsPlaying(false);
+        break;
+      case 'seekBackward':
+        seekTo(videoSeek * videoDuration - KEY_SEEK_STEP);
+        break;
+      case 'seekForward':
+        seekTo(videoSeek * videoDuration + KEY_SEEK_STEP);
+        break;
+      case 'toggleMute':
+        dispatchVolume({type: 'toggleMute'});
+        break;
+      case 'toggleFullScreen':
+        toggleFullScreen();
+        break;
+      case 'next':
+        playNext();
+        break;
+      case 'previous':
+        playPrevious();
+        break;
+    }
+    return command !== null;
+  };
+
+  const handleKeyRef = useRef(handleKey);
+  handleKeyRef.current = handleKey;
+
+  useEffect(() => {
+    //only the react-native-tvos fork ships the TV event handler, on plain react native keys are passed in with handleKey
+    const {TVEventHandler} = require('react-native');
+    if (!remoteControls || !TVEventHandler) {
+      return;
+    }
+    const tvEventHandler = new TVEventHandler();
+    tvEventHandler.enable(
+      null,
+      (_: unknown, event: {eventType: string; eventKeyAction?: number}) => {
+        //android reports the key down too, every press is handled once on key up
+        if (event.eventKeyAction !== 0) {
+          handleKeyRef.current(event.eventType, true);
+        }
+      },
+    );
+    return () => tvEventHandler.disable();
+  }, [remoteControls]);
+
+  const onReady = () => {
+    //the startup of the content is measured up to its own first frame, not the one of a pre-roll
+    if (!currentAd) {
+      sourceFallback.onReady();
+      session.current?.ready();
+    }
+    setisVideaoReady(true);
+    setShowControls(true);
+    hideControlsLater();
+  };
+
+  const onBuffer = (data: OnBufferData) => {
+    if (data.isBuffering !== isBufferingRef.current) {
+      isBufferingRef.current = data.isBuffering;
+      session.current?.buffering(data.isBuffering);
+      if (data.isBuffering && isVideoReady) announce(labels.buffering);
+      options.onBuffering?.(data.isBuffering);
+    }
+    if (
+      (data.isBuffering && !isLoading) ||
+      (!data.isBuffering && isLoading && isVideoReady)
+    ) {
+      setIsLoading(true);
+    }
+  };
+
+  const isModalFullScreen = isFullScreen && fullScreenMode === 'modal';
+
+  const resetRetry = () => {
+    if (retryTimer.current) clearTimeout(retryTimer.current);
+    setIsAutoRetrying(false);
+    setRetryAttempt(0);
+    setPlayerError(null);
+    setIsRetry(false);
+  };
+
+  const play = () => {
+    if (!isPlaying) handlePlayPause();
+  };
+
+  const pause = () => {
+    if (isPlaying) setIsPlaying(false);
+  };
+
+  feedControls.current = {
+    play,
+    pause,
+    load: () => setIsSourceDeferred(false),
+  };
+
+  return {
+    videoProps: {
+      ref: playerRef,
+      source: currentAd
+        ? {uri: currentAd.mediaFile.uri}
+        : isSourceDeferred
+        ? {}
+        : sourceFallback.source ?? {},
+      poster: currentAd ? undefined : posterPath,
+      paused: !isPlaying || ads.isAdLoading,
+      muted: isMute,
+      //the device volume sets the loudness while following it
+      volume: followSystemVolume ? 1 : volume,
+      rate: currentAd ? 1 : rate * syncState.rateFactor,
+      selectedVideoTrack,
+      selectedAudioTrack,
+      onLoad: currentAd ? ads.videoProps.onLoad : onLoad,
+      onReadyForDisplay: onReady,
+      onProgress: currentAd ? ads.videoProps.onProgress : onProgress,
+      onEnd: currentAd ? ads.videoProps.onEnd : onEnd,
+      onBuffer,
+      //fires once the player has actually moved, which ends the seek latency measurement
+      onSeek,
+      onError: currentAd ? ads.videoProps.onError : onVideoError,
+    },
+    sessionId,
+    sourceIndex,
+    isPlaying,
+    isSourceDeferred,
+    syncPausedBy: syncState.pausedBy,
+    isPosterShown,
+    isLoading:
+      !isPosterShown && ((isLoading && !isSourceDeferred) || ads.isAdLoading),
+    isVideoReady,
+    currentTime: videoSeek * videoDuration,
+    duration: videoDuration,
+    seekRatio: getSeekRatio(
+      videoSeek * videoDuration,
+      videoDuration,
+      liveWindow ?? clip,
+    ),
+    isSeeking: isSeekBarBusy,
+    isLive,
+    isDvr,
+    canSeek,
+    liveWindow,
+    liveLatency,
+    isBehindLive,
+    ad: ads.ad,
+    clip,
+    abRepeat,
+    isMute,
+    volume: isMute ? 0 : volume,
+    isFullScreen,
+    fullScreenMode,
+    isStatusBarHidden,
+    screenWidth: isModalFullScreen
+      ? fullScreenSize?.width ?? Dimensions.get('window').width
+      : screenDimensions.screenWidth,
+    screenHeight: isModalFullScreen
+      ? fullScreenSize?.height ?? Dimensions.get('window').height
+      : screenDimensions.screenHeight,
+    controls: !!controls,
+    showControls,
+    isScreenReaderEnabled,
+    labels,
+    formatTime,
+    isRemainingTimeShown,
+    error: playerError,
+    hasError: isRetry,
+    isAutoRetrying,
+    retryAttempt,
+    maxRetryAttempts: retryConfig.maxAttempts,
+    playlist,
+    playlistIndex,
+    nextIndex,
+    previousIndex,
+    upNextCountdown,
+    textTracks,
+    selectedTextTrack,
+    captionCues,
+    rate,
+    videoTracks,
+    audioTracks,
+    selectedVideoTrack,
+    selectedAudioTrack,
+    thumbnails,
+    chapters,
+    currentChapterIndex,
+    markers,
+    resumePromptPosition: resume.promptPosition,
+    openMenu,
+    play,
+    pause,
+    togglePlay: handlePlayPause,
+    seekTo,
+    seekBy: (delta: number) => seekTo(videoSeek * videoDuration + delta),
+    goLive: () => {
+      seekTo(videoDuration);
+      setIsPlaying(true);
+    },
+    skipAd: ads.skipAd,
+    toggleABRepeat: () =>
+      setABRepeat(toggleABRepeat(abRepeat, videoSeek * videoDuration)),
+    setABRepeat: (a: number, b: number) =>
+      setABRepeat({a: Math.min(a, b), b: Math.max(a, b)}),
+    clearABRepeat: () => setABRepeat(null),
+    toggleRemainingTime: () => setIsRemainingTimeShown(!isRemainingTimeShown),
+    beginSeek,
+    endSeek,
+    setMuted: (muted: boolean) => dispatchVolume({type: 'setMuted', muted}),
+    toggleMute: () => dispatchVolume({type: 'toggleMute'}),
+    setVolume: (newVolume: number) =>
+      dispatchVolume({type: 'setVolume', volume: newVolume}),
+    toggleFullScreen,
+    setFullScreenSize,
+    toggleControls: videoAreaClicked,
+    controlsTouchHandlers: {onTouchStart, onTouchEnd},
+    controlsFocusHandlers: {onFocus: onControlsFocus, onBlur: onControlsBlur},
+    handleKey,
+    retry: resetRetry,
+    next: playNext,
+    previous: playPrevious,
+    playItem,
+    cancelUpNext: () => setUpNextCountdown(null),
+    selectTextTrack,
+    setRate,
+    setSelectedVideoTrack,
+    setSelectedAudioTrack,
+    nextChapter: seekToNextChapter,
+    previousChapter: seekToPreviousChapter,
+    answerResumePrompt: resume.answerPrompt,
+    toggleMenu,
+    closeMenu: () => setOpenMenu(null),
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * @description volume of the player between 0 and 1, the volume is kept while muted. lastVolume is the level
+ * that unmuting goes back to when the volume was brought down to 0
+ */
+export type VolumeState = {
+  volume: number;
+  isMute: boolean;
+  lastVolume: number;
+};
+
+/**
+ * @description setVolume and setMuted come from the user, systemVolume from the device while the player
+ * follows the system volume
+ */
+export type VolumeAction =
+  | {type: 'setVolume'; volume: number}
+  | {type: 'setMuted'; muted: boolean}
+  | {type: 'toggleMute'}
+  | {type: 'systemVolume'; volume: number};
+
+const clampVolume = (volume: number) => Math.min(Math.max(volume, 0), 1);
+
+export const getInitialVolumeState = (
+  volume: number = 1,
+  isMute: boolean = false,
+): VolumeState => ({
+  volume: clampVolume(volume),
+  isMute,
+  lastVolume: volume > 0 ? clampVolume(volume) : 1,
+});
+
+export const volumeReducer = (
+  state: VolumeState,
+  action: VolumeAction,
+): VolumeState => {
+  switch (action.type) {
+    case 'setVolume': {
+      const volume = clampVolume(action.volume);
+      //sliding down to 0 mutes, the level before it is kept for unmuting
+      return volume > 0
+        ? {volume, isMute: false, lastVolume: volume}
+        : {...state, volume, isMute: true};
+    }
+    case 'setMuted':
+      if (action.muted) {
+        return {...state, isMute: true};
+      }
+      return {
+        ...state,
+        isMute: false,
+        volume: state.volume > 0 ? state.volume : state.lastVolume,
+      };
+    case 'toggleMute':
+      return volumeReducer(state, {type: 'setMuted', muted: !state.isMute});
+    case 'systemVolume': {
+      const volume = clampVolume(action.volume);
+      return {
+        ...state,
+        volume,
+        lastVolume: volume > 0 ? volume : state.lastVolume,
+      };
+    }
+  }
+};
@@ -0,0 +1,112 @@
+/**
+ * @description element of a parsed xml document, names keep their namespace prefix and text holds the
+ * text and CDATA content directly inside of the element
+ */
+export type XmlElement = {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      return String.fromCharCode(
+        code[1].toLowerCase() === 'x'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10),
+      );
+    }
+    return ENTITIES[code] ?? entity;
+  });
+
+const parseAttributes = (source: string) => {
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match = attributePattern.exec(source);
+  while (match) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4]);
+    match = attributePattern.exec(source);
+  }
+  return attributes;
+};
+
+/**
+ * @description parses the small xml documents of ad servers, doctypes, comments and processing
+ * instructions are skipped. Throws on tags that are not closed
+ */
+export const parseXml = (source: string): XmlElement => {
+  const root: XmlElement = {name: '', attributes: {}, children: [], text: ''};
+  const stack: XmlElement[] = [root];
+  const tokenPattern =
+    /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<![^>]*>|<\?[\s\S]*?\?>|<\/([^\s>]+)\s*>|<([^\s/>]+)([^>]*?)(\/?)>|([^<]+)/g;
+  let match = tokenPattern.exec(source);
+  while (match) {
+    const parent = stack[stack.length - 1];
+    const [, cdata, closingName, openingName, attributes, selfClosing, text] =
+      match;
+    if (cdata !== undefined) {
+      parent.text += cdata;
+    } else if (closingName !== undefined) {
+      if (parent.name !== closingName) {
+        throw new Error(`Unexpected closing tag ${closingName}`);
+      }
+      parent.text = parent.text.trim();
+      stack.pop();
+    } else if (openingName !== undefined) {
+      const element: XmlElement = {
+        name: openingName,
+        attributes: parseAttributes(attributes),
+        children: [],
+        text: '',
+      };
+      parent.children.push(element);
+      if (!selfClosing) stack.push(element);
+    } else if (text !== undefined) {
+      parent.text += decodeEntities(text);
+    }
+    match = tokenPattern.exec(source);
+  }
+  if (stack.length > 1) {
+    throw new Error(`Unclosed tag ${stack[stack.length - 1].name}`);
+  }
+  const documentElement = root.children[0];
+  if (!documentElement) {
+    throw new Error('Empty xml document');
+  }
+  return documentElement;
+};
+
+//vmap:AdBreak and AdBreak are the same element
+const localName = (name: string) => name.slice(name.indexOf(':') + 1);
+
+export const getChildren = (element: XmlElement | undefined, name: string) =>
+  element?.children.filter(child => localName(child.name) === name) ?? [];
+
+export const getChild = (element: XmlElement | undefined, name: string) =>
+  getChildren(element, name)[0] as XmlElement | undefined;
+
+/**
+ * @description elements at the given path of names below the element, every level can match several elements
+ */
+export const getAll = (
+  element: XmlElement | undefined,
+  ...path: string[]
+): XmlElement[] =>
+  path.reduce<XmlElement[]>(
+    (elements, name) =>
+      elements.reduce<XmlElement[]>(
+        (children, parent) => [...children, ...getChildren(parent, name)],
+        [],
+      ),
+    element ? [element] : [],
+  );